@@ -0,0 +1,132 @@
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import App from './App';
+import { Song } from './types';
+import { MusicSearchProvider } from './services/searchProvider';
+import { MetadataResolver } from './services/metadataResolver';
+import { AppError } from './services/appErrors';
+import { songId } from './services/songIdentity';
+
+// Draws with AudioContext and canvas, neither of which jsdom has
+vi.mock('./components/RecordingVisualizer', () => ({ default: () => null }));
+
+const TIME: Song = {
+  id: songId('Time', 'Hans Zimmer'),
+  titulo: 'Time',
+  artista: 'Hans Zimmer',
+  matchType: 'Contexto',
+  confidence: 92,
+  description: 'Plays over the ending of Inception.',
+};
+
+// Each call takes the next answer: songs to stream, or an error to throw
+const fakeProvider = (...answers: (Song[] | Error)[]) => {
+  const searchMusic = vi.fn(async function* () {
+    const answer = answers.shift() ?? [];
+    if (answer instanceof Error) throw answer;
+    yield* answer;
+  });
+  return { name: 'fake', searchMusic } satisfies MusicSearchProvider;
+};
+
+const offlineResolver: MetadataResolver = { name: 'fake', resolve: async () => null };
+
+const renderApp = (provider: MusicSearchProvider) =>
+  render(<App searchProvider={provider} metadataResolver={offlineResolver} />);
+
+const search = (text: string) => {
+  fireEvent.change(screen.getByPlaceholderText(/That sad piano song/), { target: { value: text } });
+  fireEvent.click(screen.getByRole('button', { name: 'Find Music' }));
+};
+
+beforeEach(() => {
+  // jsdom has no IndexedDB, so history and the offline queue log and carry on
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  // No waiting between retries
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+});
+
+describe('App search', () => {
+  it('asks for input instead of searching with nothing', () => {
+    const provider = fakeProvider();
+    renderApp(provider);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Find Music' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Please describe a song or record audio first.');
+    expect(provider.searchMusic).not.toHaveBeenCalled();
+  });
+
+  it('shows the songs the provider finds', async () => {
+    renderApp(fakeProvider([TIME]));
+    search('sad piano from Inception');
+
+    expect(await screen.findByText('Time')).toBeInTheDocument();
+    expect(screen.getByText('Hans Zimmer')).toBeInTheDocument();
+  });
+
+  it('says so when nothing matches', async () => {
+    renderApp(fakeProvider([]));
+    search('a song nobody knows');
+
+    expect(await screen.findByText('No results found yet.')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('explains an error the user can only report, without a retry button', async () => {
+    renderApp(fakeProvider(new AppError('api_key')));
+    search('sad piano');
+
+    const alert = await screen.findByRole('alert');
+    expect(alert).toHaveTextContent("The search server's Gemini API key is missing or invalid.");
+    expect(alert).toHaveTextContent('Code api_key · 1 attempt');
+    expect(screen.queryByRole('button', { name: 'Try again' })).not.toBeInTheDocument();
+  });
+
+  it('offers to try an unexpected failure again', async () => {
+    const provider = fakeProvider(new Error('boom'), [TIME]);
+    renderApp(provider);
+    search('sad piano');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('An unexpected error occurred.');
+    fireEvent.click(screen.getByRole('button', { name: 'Try again' }));
+
+    expect(await screen.findByText('Time')).toBeInTheDocument();
+    expect(provider.searchMusic).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries a transient failure on its own', async () => {
+    const provider = fakeProvider(new AppError('unavailable'), [TIME]);
+    renderApp(provider);
+    search('sad piano');
+
+    expect(await screen.findByText('Time')).toBeInTheDocument();
+    expect(provider.searchMusic).toHaveBeenCalledTimes(2);
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('gives up on a transient failure after the last attempt', async () => {
+    const provider = fakeProvider(new AppError('unavailable'), new AppError('unavailable'), new AppError('unavailable'));
+    renderApp(provider);
+    search('sad piano');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Code unavailable · 3 attempts');
+    expect(provider.searchMusic).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('App favorites', () => {
+  it('keeps favorites across reloads', async () => {
+    const { unmount } = renderApp(fakeProvider([TIME]));
+    search('sad piano');
+    fireEvent.click(await screen.findByTitle('Add to Favorites'));
+
+    expect(localStorage.getItem('jacareFavorites')).toContain('"titulo":"Time"');
+    unmount();
+
+    renderApp(fakeProvider());
+    fireEvent.click(screen.getByRole('button', { name: /Favorites/ }));
+    expect(await screen.findByText('Time')).toBeInTheDocument();
+  });
+});
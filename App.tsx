@@ -1,89 +1,435 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { Search, Music2, AlertCircle, Play, Loader2, X, Heart } from 'lucide-react';
-import { Song, SearchState } from './types';
-import { searchMusic } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { Search, Music2, Loader2, X, CloudOff, Heart, History, Settings, MessageSquare, Send } from 'lucide-react';
+import { Song, SearchState, HistoryEntry, PitchPoint, Library, LinkPreferences, SearchSettings, QueuedSearch } from './types';
+import {
+  MAX_REFINEMENTS,
+  MusicSearchProvider,
+  RefinementTurn,
+  SearchQuery,
+  createSearchProvider,
+  rejectedSongIds,
+} from './services/searchProvider';
+import { loadLibrary, saveLibrary } from './services/favoritesStorage';
+import { addSong, findEntry, removeSong } from './services/library';
+import { clearHistory, deleteHistoryEntry, getCachedEntry, hashQuery, listHistory, saveHistoryEntry } from './services/historyStore';
+import { blobToBase64 } from './services/audioEncoding';
+import { withLocalMelodyMatches } from './services/localMelodyProvider';
+import { MIN_FINGERPRINT_LENGTH, melodyFingerprint } from './services/melodyMatcher';
+import { MetadataResolver, applyMetadata, createMetadataResolver } from './services/metadataResolver';
+import { loadLinkPreferences, saveLinkPreferences, visibleLinkProviders } from './services/linkPreferences';
+import { Locale, createTranslator, loadLocale, saveLocale } from './services/i18n';
+import { generationFor, loadSearchSettings, saveSearchSettings, searchModeOf } from './services/searchSettings';
+import { DEFAULT_RETRY_POLICY, withRetries } from './services/retry';
+import { toErrorInfo } from './services/appErrors';
+import { drainSearchQueue, enqueueSearch, listQueuedSearches, removeQueuedSearch } from './services/searchQueue';
+import { notify, requestNotificationPermission } from './services/notifications';
 import AudioRecorder from './components/AudioRecorder';
+import HistoryList from './components/HistoryList';
+import SongCard from './components/SongCard';
+import LibraryView from './components/LibraryView';
+import SettingsPanel from './components/SettingsPanel';
+import ErrorNotice from './components/ErrorNotice';
+import { I18nContext } from './components/I18nContext';
 
-export default function App() {
+const defaultSearchProvider = createSearchProvider();
+const defaultMetadataResolver = createMetadataResolver();
+
+// Duplicates come back with the same id when a better match arrives
+const upsertSong = (songs: Song[], song: Song) => {
+  const index = songs.findIndex(s => s.id === song.id);
+  return index >= 0 ? songs.map((s, i) => (i === index ? song : s)) : [...songs, song];
+};
+
+interface AppProps {
+  searchProvider?: MusicSearchProvider;
+  metadataResolver?: MetadataResolver;
+}
+
+export default function App({ searchProvider = defaultSearchProvider, metadataResolver = defaultMetadataResolver }: AppProps) {
   const [searchText, setSearchText] = useState('');
-  const [audioData, setAudioData] = useState<{ base64: string; mimeType: string } | null>(null);
-  const [activeTab, setActiveTab] = useState<'search' | 'favorites'>('search');
+  const [audioData, setAudioData] = useState<{ base64: string; mimeType: string; pitchContour?: PitchPoint[] } | null>(null);
+  const [activeTab, setActiveTab] = useState<'search' | 'favorites' | 'history'>('search');
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
   
   const [state, setState] = useState<SearchState>({
     isLoading: false,
+    isStreaming: false,
     error: null,
     results: [],
   });
+  const searchAbortRef = useRef<AbortController | null>(null);
+  // What "Try again" re-runs
+  const lastQueryRef = useRef<SearchQuery | null>(null);
+  const searchInputRef = useRef<HTMLTextAreaElement | null>(null);
+
+  // The search being refined: the original query plus the follow-up turns
+  // that have been answered so far
+  const [conversation, setConversation] = useState<{ query: SearchQuery; turns: RefinementTurn[] } | null>(null);
+  // Current results marked "not it", sent with the next refinement
+  const [rejectedIds, setRejectedIds] = useState<Set<string>>(() => new Set());
+  const [refineText, setRefineText] = useState('');
+  // Catalog lookups outlive the search stream, so they get their own handle
+  const enrichAbortRef = useRef<AbortController | null>(null);
+
+  // History lives in IndexedDB, so it loads asynchronously
+  useEffect(() => {
+    listHistory().then(setHistory, (e) => console.error("Failed to load search history", e));
+  }, []);
+
+  // Don't let a search outlive the component
+  useEffect(() => {
+    return () => {
+      searchAbortRef.current?.abort();
+      enrichAbortRef.current?.abort();
+    };
+  }, []);
+
+  // Load the favorites library from local storage on mount (migrating older
+  // formats if needed)
+  const [library, setLibrary] = useState<Library>(loadLibrary);
+
+  // Persist the library whenever it changes
+  useEffect(() => {
+    saveLibrary(library);
+  }, [library]);
+
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const i18n = useMemo(() => createTranslator(locale), [locale]);
+  const { t } = i18n;
 
-  // Load favorites from local storage on mount
-  const [favorites, setFavorites] = useState<Song[]>(() => {
+  useEffect(() => {
+    saveLocale(locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const [searchSettings, setSearchSettings] = useState<SearchSettings>(loadSearchSettings);
+
+  useEffect(() => {
+    saveSearchSettings(searchSettings);
+  }, [searchSettings]);
+
+  const [linkPreferences, setLinkPreferences] = useState<LinkPreferences>(loadLinkPreferences);
+  const [showSettings, setShowSettings] = useState(false);
+
+  useEffect(() => {
+    saveLinkPreferences(linkPreferences);
+  }, [linkPreferences]);
+
+  const linkProviders = useMemo(() => visibleLinkProviders(linkPreferences), [linkPreferences]);
+
+  // Hums are matched against melodies saved with favorites before (or
+  // alongside) the remote search, which retries on transient failures
+  const libraryRef = useRef(library);
+  libraryRef.current = library;
+  const provider = useMemo(
+    () => withLocalMelodyMatches(withRetries(searchProvider), () => libraryRef.current.entries.map(entry => entry.song)),
+    [searchProvider]
+  );
+
+  // Searches made offline wait in IndexedDB and run once the connection is back
+  const [queued, setQueued] = useState<QueuedSearch[]>([]);
+  const drainingRef = useRef(false);
+
+  const runQueuedSearches = async () => {
+    if (drainingRef.current || !navigator.onLine) return;
+    drainingRef.current = true;
+    const optionsFor = (query: SearchQuery) => ({ generation: generationFor(searchSettings, searchModeOf(query)) });
     try {
-      const saved = localStorage.getItem('jacareFavorites');
-      return saved ? JSON.parse(saved) : [];
+      await drainSearchQueue(provider, optionsFor, async (entry, query, results) => {
+        const saved = await saveHistoryEntry(await hashQuery(query, optionsFor(query).generation), query, results);
+        setHistory(prev => [saved, ...prev.filter(e => e.id !== saved.id)]);
+        setQueued(prev => prev.filter(q => q.id !== entry.id));
+        notify(
+          t('queue.notificationTitle'),
+          t('queue.notificationBody', { query: entry.text.trim() || t('history.audioOnly'), count: results.length })
+        );
+      });
+      // Picks up searches dropped for good, too
+      setQueued(await listQueuedSearches());
     } catch (e) {
-      console.error("Failed to load favorites", e);
-      return [];
+      console.error("Failed to run queued searches", e);
+    } finally {
+      drainingRef.current = false;
     }
-  });
+  };
+  // The listeners below outlive renders; always call the current closure
+  const runQueuedRef = useRef(runQueuedSearches);
+  runQueuedRef.current = runQueuedSearches;
 
-  // Persist favorites whenever they change
   useEffect(() => {
-    localStorage.setItem('jacareFavorites', JSON.stringify(favorites));
-  }, [favorites]);
+    listQueuedSearches().then(entries => {
+      setQueued(entries);
+      if (entries.length > 0) runQueuedRef.current();
+    }, (e) => console.error("Failed to load queued searches", e));
+
+    // "online" doesn't fire when only our server was unreachable, so coming
+    // back to the app is a cue to try again as well
+    const retry = () => {
+      if (document.visibilityState === 'visible') runQueuedRef.current();
+    };
+    window.addEventListener('online', retry);
+    document.addEventListener('visibilitychange', retry);
+    return () => {
+      window.removeEventListener('online', retry);
+      document.removeEventListener('visibilitychange', retry);
+    };
+  }, []);
+
+  const queueSearch = async (query: SearchQuery) => {
+    requestNotificationPermission();
+    try {
+      const entry = await enqueueSearch(query);
+      setQueued(prev => [...prev, entry]);
+      setState({ isLoading: false, isStreaming: false, error: null, results: [] });
+    } catch (e) {
+      console.error("Failed to queue search", e);
+      setState(prev => ({ ...prev, isLoading: false, isStreaming: false, error: { code: 'offline' } }));
+    }
+  };
+
+  const handleRemoveQueued = (entry: QueuedSearch) => {
+    setQueued(prev => prev.filter(q => q.id !== entry.id));
+    removeQueuedSearch(entry.id).catch(e => console.error("Failed to remove queued search", e));
+  };
+
+  // Melody of the hum behind the current results; saved with any of them
+  // that get favorited
+  const [resultsFingerprint, setResultsFingerprint] = useState<number[] | null>(null);
 
   const toggleFavorite = (song: Song) => {
-    setFavorites(prev => {
-      const isFav = prev.some(f => f.id === song.id);
-      if (isFav) {
-        return prev.filter(f => f.id !== song.id);
+    setLibrary(prev => {
+      if (findEntry(prev, song)) {
+        return removeSong(prev, song);
+      } else if (resultsFingerprint && !song.melodyFingerprint && state.results.some(r => r.id === song.id)) {
+        return addSong(prev, { ...song, melodyFingerprint: resultsFingerprint });
       } else {
-        return [...prev, song];
+        return addSong(prev, song);
       }
     });
   };
 
-  const handleAudioComplete = useCallback((base64: string, mimeType: string) => {
-    setAudioData({ base64, mimeType });
+  const handleAudioComplete = useCallback((base64: string, mimeType: string, pitchContour?: PitchPoint[]) => {
+    setAudioData({ base64, mimeType, pitchContour });
   }, []);
 
   const handleClearAudio = useCallback(() => {
     setAudioData(null);
   }, []);
 
-  const handleSearch = async () => {
-    if (!searchText.trim() && !audioData) {
-      setState(prev => ({ ...prev, error: "Please describe a song or record audio first." }));
-      return;
-    }
+  // Fills in album, cover art and the verified flag once the catalog answers.
+  // Lookup failures just leave the card as it is.
+  const enrichSong = (song: Song, signal: AbortSignal) => {
+    metadataResolver.resolve(song, { signal }).then(
+      metadata => {
+        if (signal.aborted) return;
+        setState(prev => ({
+          ...prev,
+          results: prev.results.map(r => (r.id === song.id ? applyMetadata(r, metadata) : r)),
+        }));
+      },
+      (e) => {
+        if (!signal.aborted) console.warn(`Metadata lookup failed for ${song.id}`, e);
+      }
+    );
+  };
+
+  const runSearch = async (query: SearchQuery) => {
+    // A new search replaces whatever is still in flight
+    searchAbortRef.current?.abort();
+    enrichAbortRef.current?.abort();
+    const controller = new AbortController();
+    const enrichment = new AbortController();
+    searchAbortRef.current = controller;
+    enrichAbortRef.current = enrichment;
+    lastQueryRef.current = query;
 
-    setState({ isLoading: true, error: null, results: [] });
+    // Refinements keep the current results on screen until the first new
+    // one arrives, so a failed turn can simply be sent again
+    const refinements = query.refinements ?? [];
+    const refining = refinements.length > 0;
+    const rejected = rejectedSongIds(refinements);
+    if (refining) {
+      setState(prev => ({ ...prev, isLoading: true, isStreaming: false, error: null }));
+    } else {
+      setState({ isLoading: true, isStreaming: false, error: null, results: [] });
+      setConversation({ query, turns: [] });
+      setRejectedIds(new Set());
+      setRefineText('');
+    }
     setActiveTab('search');
 
+    const generation = generationFor(searchSettings, searchModeOf(query));
+
+    const fingerprint = query.pitchContour ? melodyFingerprint(query.pitchContour) : [];
+    setResultsFingerprint(fingerprint.length >= MIN_FINGERPRINT_LENGTH ? fingerprint : null);
+
+    // History is a nice-to-have; never let storage problems block a search.
+    // Refinements are one-off conversations, so they skip it entirely.
+    let cacheKey: string | null = null;
+    if (!refining) {
+      try {
+        cacheKey = await hashQuery(query, generation);
+        const cached = await getCachedEntry(cacheKey);
+        if (controller.signal.aborted) return;
+        if (cached) {
+          setState({ isLoading: false, isStreaming: false, error: null, results: cached.results });
+          searchAbortRef.current = null;
+          cached.results.forEach(song => enrichSong(song, enrichment.signal));
+          return;
+        }
+      } catch (e) {
+        console.error("Search cache unavailable", e);
+      }
+    }
+
+    let results: Song[] = [];
     try {
-      const rawResults = await searchMusic(searchText, audioData?.base64 || null, audioData?.mimeType);
-      
-      // Ensure unique IDs to prevent collisions in favorites (if AI returns simple/duplicate IDs)
-      const results = rawResults.map(r => ({
-        ...r,
-        id: r.id && r.id.length > 5 ? r.id : crypto.randomUUID()
+      const onRetry = (attempt: number) => {
+        if (!controller.signal.aborted) setState(prev => ({ ...prev, retryAttempt: attempt }));
+      };
+      for await (const song of provider.searchMusic(query, { signal: controller.signal, generation, onRetry })) {
+        if (controller.signal.aborted) return;
+        // The model occasionally repeats a song it was told is wrong
+        if (rejected.has(song.id)) continue;
+        const first = results.length === 0;
+        results = upsertSong(results, song);
+        // Merge into state rather than replacing it so metadata that already
+        // arrived for earlier songs isn't lost
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          isStreaming: true,
+          retryAttempt: undefined,
+          results: upsertSong(first ? [] : prev.results, song),
+        }));
+        enrichSong(song, enrichment.signal);
+      }
+
+      if (controller.signal.aborted) return;
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        isStreaming: false,
+        retryAttempt: undefined,
+        results: results.length > 0 ? prev.results : [],
       }));
+      if (refining) {
+        setConversation(prev => prev && { ...prev, turns: refinements });
+        setRejectedIds(new Set());
+        setRefineText('');
+      }
+    } catch (err) {
+      // Cancelled on purpose (new search, Clear All); nothing to report
+      if (controller.signal.aborted) return;
+      const error = toErrorInfo(err);
+      // Nothing came back before the connection failed: keep the search for later.
+      // Refinements depend on the results on screen, so they can't wait.
+      if (error.code === 'offline' && !refining && results.length === 0) {
+        queueSearch(query);
+        return;
+      }
+      setState(prev => ({
+        isLoading: false,
+        isStreaming: false,
+        error,
+        results: prev.results
+      }));
+      return;
+    } finally {
+      if (searchAbortRef.current === controller) searchAbortRef.current = null;
+    }
 
-      setState({ isLoading: false, error: null, results });
-    } catch (err: any) {
-      setState({ 
-        isLoading: false, 
-        error: err.message || "An unexpected error occurred.", 
-        results: [] 
-      });
+    if (cacheKey) {
+      try {
+        const entry = await saveHistoryEntry(cacheKey, query, results);
+        setHistory(prev => [entry, ...prev.filter(e => e.id !== entry.id)]);
+      } catch (e) {
+        console.error("Failed to save search history", e);
+      }
+    }
+  };
+
+  const handleSearch = () => {
+    if (!searchText.trim() && !audioData) {
+      setState(prev => ({ ...prev, error: { code: 'missing_input' } }));
+      return;
+    }
+
+    const query: SearchQuery = {
+      text: searchText,
+      audioBase64: audioData?.base64 || null,
+      mimeType: audioData?.mimeType ?? null,
+      pitchContour: audioData?.pitchContour,
+      locale,
+    };
+    if (!navigator.onLine) {
+      queueSearch(query);
+      return;
     }
+    runSearch(query);
+  };
+
+  const handleToggleRejected = (song: Song) => {
+    setRejectedIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(song.id)) next.add(song.id);
+      return next;
+    });
+  };
+
+  // Sends the current results back with the "not it" marks and the user's
+  // extra details as the next turn of the conversation
+  const handleRefine = () => {
+    if (!conversation || (!refineText.trim() && rejectedIds.size === 0)) return;
+    const turn: RefinementTurn = {
+      candidates: state.results.map(song => ({
+        titulo: song.titulo,
+        artista: song.artista,
+        rejected: rejectedIds.has(song.id),
+      })),
+      feedback: refineText.trim(),
+    };
+    runSearch({ ...conversation.query, refinements: [...conversation.turns, turn] });
+  };
+
+  const handleRerun = async (entry: HistoryEntry) => {
+    const base64 = entry.audio ? await blobToBase64(entry.audio) : null;
+    const mimeType = base64 ? entry.mimeType : null;
+    setSearchText(entry.text);
+    setAudioData(base64 ? { base64, mimeType, pitchContour: entry.pitchContour } : null);
+    runSearch({ text: entry.text, audioBase64: base64, mimeType, pitchContour: entry.pitchContour, locale });
+  };
+
+  const handleDeleteHistory = (entry: HistoryEntry) => {
+    setHistory(prev => prev.filter(e => e.id !== entry.id));
+    deleteHistoryEntry(entry.id).catch(e => console.error("Failed to delete history entry", e));
+  };
+
+  const handleClearHistory = () => {
+    setHistory([]);
+    clearHistory().catch(e => console.error("Failed to clear history", e));
   };
 
   const clearAll = () => {
+    searchAbortRef.current?.abort();
+    searchAbortRef.current = null;
+    enrichAbortRef.current?.abort();
+    enrichAbortRef.current = null;
     setSearchText('');
     setAudioData(null);
-    setState({ isLoading: false, error: null, results: [] });
+    setResultsFingerprint(null);
+    setConversation(null);
+    setRejectedIds(new Set());
+    setRefineText('');
+    setState({ isLoading: false, isStreaming: false, error: null, results: [] });
   };
 
+  const canRefine = conversation !== null
+    && !state.isLoading
+    && !state.isStreaming
+    && conversation.turns.length < MAX_REFINEMENTS
+    && (state.results.length > 0 || conversation.turns.length > 0);
+
   const hasContent = searchText.length > 0 || audioData !== null || state.results.length > 0;
 
   // Helper to render a list of songs
@@ -99,74 +445,55 @@ export default function App() {
 
     return (
       <div className="flex flex-col gap-4 mt-2">
-        {songs.map((song) => {
-          const isFav = favorites.some(f => f.id === song.id);
-          return (
-            <div 
-              key={song.id} 
-              className="bg-jacare-800 p-4 rounded-xl border border-gray-700/50 flex items-center gap-4 group hover:border-jacare-500/50 transition-colors"
-            >
-              {/* Cover Placeholder */}
-              <div className="w-14 h-14 bg-gray-700 rounded-lg flex items-center justify-center shrink-0 shadow-inner relative overflow-hidden">
-                <div className="absolute inset-0 bg-gradient-to-br from-gray-700 to-gray-800" />
-                <Music2 className="text-gray-400 group-hover:text-jacare-500 transition-colors relative z-10" size={24} />
-              </div>
-
-              {/* Info */}
-              <div className="flex-1 min-w-0">
-                <h3 className="text-white font-bold text-base truncate">{song.titulo}</h3>
-                <p className="text-gray-400 text-sm truncate mb-1">{song.artista}</p>
-                
-                <div className="flex flex-wrap gap-2">
-                  <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide bg-gray-900 text-jacare-500 border border-gray-700">
-                    {song.matchType}
-                  </span>
-                  {song.confidence > 0 && (
-                    <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium bg-gray-900 text-gray-400 border border-gray-700">
-                      {song.confidence}% Match
-                    </span>
-                  )}
-                </div>
-              </div>
-
-              {/* Actions */}
-              <div className="flex flex-col gap-2">
-                <button 
-                  className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${isFav ? 'bg-red-500/10 text-red-500' : 'bg-gray-700/30 text-gray-400 hover:bg-red-500/10 hover:text-red-500'}`}
-                  onClick={() => toggleFavorite(song)}
-                  title={isFav ? "Remove from Favorites" : "Add to Favorites"}
-                >
-                  <Heart size={16} fill={isFav ? "currentColor" : "none"} />
-                </button>
-                
-                <button 
-                  className="w-8 h-8 rounded-full bg-jacare-500/10 text-jacare-500 flex items-center justify-center hover:bg-jacare-500 hover:text-white transition-all"
-                  onClick={() => window.open(`https://www.youtube.com/results?search_query=${encodeURIComponent(`${song.titulo} ${song.artista}`)}`, '_blank')}
-                  title="Search on YouTube"
-                >
-                  <Play size={16} fill="currentColor" />
-                </button>
-              </div>
-            </div>
-          );
-        })}
+        {songs.map((song) => (
+          <SongCard
+            key={song.id}
+            song={song}
+            isFavorite={!!findEntry(library, song)}
+            onToggleFavorite={toggleFavorite}
+            linkProviders={linkProviders}
+            isRejected={rejectedIds.has(song.id)}
+            onToggleRejected={conversation ? handleToggleRejected : undefined}
+          />
+        ))}
       </div>
     );
   };
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div className="min-h-screen bg-jacare-900 flex flex-col items-center">
       {/* Header */}
       <header className="w-full max-w-md px-6 pt-8 pb-4 flex items-center gap-3">
         <div className="p-2 bg-jacare-800 rounded-lg border border-jacare-500/30">
           <Search className="text-jacare-500" size={28} />
         </div>
-        <div>
+        <div className="flex-1">
           <h1 className="text-2xl font-bold text-white tracking-tight">JacareFinder</h1>
-          <p className="text-gray-400 text-xs">AI Powered Music Discovery</p>
+          <p className="text-gray-400 text-xs">{t('app.tagline')}</p>
         </div>
+        <button
+          onClick={() => setShowSettings(open => !open)}
+          className={`p-2 rounded-lg transition-colors ${showSettings ? 'text-jacare-500 bg-jacare-800' : 'text-gray-500 hover:text-white'}`}
+          title={t('settings.title')}
+        >
+          <Settings size={20} />
+        </button>
       </header>
 
+      {showSettings && (
+        <div className="w-full max-w-md px-5 mb-4">
+          <SettingsPanel
+            onChangeLocale={setLocale}
+            searchSettings={searchSettings}
+            onChangeSearchSettings={setSearchSettings}
+            linkPreferences={linkPreferences}
+            onChangeLinkPreferences={setLinkPreferences}
+            onClose={() => setShowSettings(false)}
+          />
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="w-full max-w-md px-5 mb-4">
         <div className="flex w-full bg-jacare-800/50 p-1 rounded-xl border border-gray-800">
@@ -174,19 +501,25 @@ export default function App() {
             onClick={() => setActiveTab('search')}
             className={`flex-1 py-2.5 rounded-lg text-sm font-bold transition-all flex items-center justify-center gap-2 ${activeTab === 'search' ? 'bg-jacare-500 text-white shadow-lg' : 'text-gray-400 hover:text-gray-200'}`}
           >
-            <Search size={16} /> Search
+            <Search size={16} /> {t('tabs.search')}
           </button>
           <button 
             onClick={() => setActiveTab('favorites')}
             className={`flex-1 py-2.5 rounded-lg text-sm font-bold transition-all flex items-center justify-center gap-2 ${activeTab === 'favorites' ? 'bg-jacare-500 text-white shadow-lg' : 'text-gray-400 hover:text-gray-200'}`}
           >
-            <Heart size={16} fill={activeTab === 'favorites' ? "currentColor" : "none"} /> Favorites
-            {favorites.length > 0 && (
+            <Heart size={16} fill={activeTab === 'favorites' ? "currentColor" : "none"} /> {t('tabs.favorites')}
+            {library.entries.length > 0 && (
               <span className="bg-white text-jacare-600 text-[10px] px-1.5 py-0.5 rounded-full min-w-[1.2rem] text-center font-bold">
-                {favorites.length}
+                {library.entries.length}
               </span>
             )}
           </button>
+          <button 
+            onClick={() => setActiveTab('history')}
+            className={`flex-1 py-2.5 rounded-lg text-sm font-bold transition-all flex items-center justify-center gap-2 ${activeTab === 'history' ? 'bg-jacare-500 text-white shadow-lg' : 'text-gray-400 hover:text-gray-200'}`}
+          >
+            <History size={16} /> {t('tabs.history')}
+          </button>
         </div>
       </div>
 
@@ -197,14 +530,15 @@ export default function App() {
             {/* Input Section */}
             <div className="bg-jacare-800/50 p-4 rounded-2xl border border-gray-800 shadow-xl backdrop-blur-sm">
               <textarea
+                ref={searchInputRef}
                 className="w-full bg-jacare-900/50 text-white rounded-xl p-4 min-h-[100px] border border-gray-700 focus:border-jacare-500 focus:ring-1 focus:ring-jacare-500 outline-none resize-none placeholder-gray-600 transition-all text-sm"
-                placeholder="e.g. 'That sad piano song from the end of the movie Inception' or 'Lyrics about falling in the deep end'..."
+                placeholder={t('search.placeholder')}
                 value={searchText}
                 onChange={(e) => setSearchText(e.target.value)}
               />
 
               <AudioRecorder 
-                key={audioData ? 'has-audio' : 'no-audio'} 
+                hasRecording={audioData !== null}
                 onRecordingComplete={handleAudioComplete} 
                 onClear={handleClearAudio} 
               />
@@ -212,9 +546,37 @@ export default function App() {
 
             {/* Error Message */}
             {state.error && (
-              <div className="bg-red-900/20 border border-red-900/50 p-4 rounded-xl flex items-center gap-3">
-                <AlertCircle className="text-red-500 shrink-0" size={20} />
-                <p className="text-red-200 text-sm">{state.error}</p>
+              <ErrorNotice
+                error={state.error}
+                actions={{
+                  retry: () => lastQueryRef.current && runSearch(lastQueryRef.current),
+                  edit_text: () => searchInputRef.current?.focus(),
+                  discard_audio: handleClearAudio,
+                }}
+              />
+            )}
+
+            {/* Offline queue */}
+            {queued.length > 0 && (
+              <div className="bg-jacare-800 p-4 rounded-xl border border-gray-700 flex flex-col gap-2">
+                <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                  <CloudOff size={16} className="text-jacare-500" /> {t('queue.pending', { count: queued.length })}
+                </h3>
+                <p className="text-[11px] text-gray-500">{t('queue.hint')}</p>
+                <ul className="flex flex-col gap-1">
+                  {queued.map(entry => (
+                    <li key={entry.id} className="flex items-center justify-between gap-2 text-xs text-gray-300">
+                      <span className="truncate">{entry.text.trim() || t('history.audioOnly')}</span>
+                      <button
+                        onClick={() => handleRemoveQueued(entry)}
+                        className="text-gray-500 hover:text-red-400 transition-colors shrink-0"
+                        title={t('queue.remove')}
+                      >
+                        <X size={14} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
               </div>
             )}
 
@@ -222,28 +584,29 @@ export default function App() {
             <div className="flex flex-col gap-3">
               <button
                 onClick={handleSearch}
-                disabled={state.isLoading}
                 className="w-full bg-jacare-500 hover:bg-jacare-600 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 rounded-xl shadow-lg shadow-jacare-900/50 transition-all active:scale-[0.98] flex items-center justify-center gap-2 uppercase tracking-wider text-sm"
               >
                 {state.isLoading ? (
                   <>
                     <Loader2 className="animate-spin" size={20} />
-                    Analyzing...
+                    {state.retryAttempt
+                      ? t('search.retrying', { attempt: state.retryAttempt, total: DEFAULT_RETRY_POLICY.attempts })
+                      : t('search.analyzing')}
                   </>
                 ) : (
                   <>
                     <Search size={20} />
-                    Find Music
+                    {t('search.submit')}
                   </>
                 )}
               </button>
 
-              {hasContent && !state.isLoading && (
+              {hasContent && (
                 <button 
                   onClick={clearAll}
                   className="text-gray-500 text-xs font-medium hover:text-white transition-colors flex items-center justify-center gap-1 py-2"
                 >
-                  <X size={14} /> Clear All
+                  <X size={14} /> {t(state.isLoading || state.isStreaming ? 'search.cancelAndClear' : 'search.clearAll')}
                 </button>
               )}
             </div>
@@ -251,19 +614,74 @@ export default function App() {
             {/* Results List */}
             {state.results.length > 0 && (
                <h2 className="text-lg font-bold text-white flex items-center gap-2 mt-2">
-                 Results <span className="text-xs font-normal text-gray-500 bg-gray-800 px-2 py-0.5 rounded-full">{state.results.length}</span>
+                 {t('search.results')} <span className="text-xs font-normal text-gray-500 bg-gray-800 px-2 py-0.5 rounded-full">{state.results.length}</span>
+                 {state.isStreaming && <Loader2 className="animate-spin text-jacare-500" size={16} />}
                </h2>
             )}
             
-            {renderSongList(state.results, !state.isLoading && searchText && !state.error ? "No results found yet." : "Search results will appear here.")}
+            {renderSongList(state.results, t(!state.isLoading && searchText && !state.error ? 'search.noResults' : 'search.emptyHint'))}
+
+            {/* Refinement */}
+            {canRefine && (
+              <div className="bg-jacare-800 p-4 rounded-xl border border-gray-700 flex flex-col gap-3">
+                <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                  <MessageSquare size={16} className="text-jacare-500" /> {t('refine.title')}
+                </h3>
+                {conversation.turns.some(turn => turn.feedback) && (
+                  <ul className="flex flex-col gap-1.5">
+                    {conversation.turns.filter(turn => turn.feedback).map((turn, i) => (
+                      <li key={i} className="self-end max-w-[85%] bg-jacare-500/10 text-gray-300 text-xs px-3 py-1.5 rounded-lg rounded-br-sm">
+                        {turn.feedback}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex gap-2">
+                  <input
+                    className="flex-1 bg-jacare-900/50 text-white rounded-lg px-3 py-2 border border-gray-700 focus:border-jacare-500 outline-none text-sm placeholder-gray-600"
+                    placeholder={t('refine.placeholder')}
+                    value={refineText}
+                    onChange={(e) => setRefineText(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRefine()}
+                  />
+                  <button
+                    onClick={handleRefine}
+                    disabled={!refineText.trim() && rejectedIds.size === 0}
+                    className="px-3 rounded-lg bg-jacare-500 hover:bg-jacare-600 disabled:opacity-50 disabled:cursor-not-allowed text-white transition-colors"
+                    title={t('refine.submit')}
+                  >
+                    <Send size={16} />
+                  </button>
+                </div>
+                <p className="text-[11px] text-gray-500">
+                  {rejectedIds.size > 0 ? t('refine.rejectedCount', { count: rejectedIds.size }) : t('refine.hint')}
+                </p>
+              </div>
+            )}
           </>
+        ) : activeTab === 'favorites' ? (
+          <div className="animate-in fade-in slide-in-from-bottom-4 duration-300">
+             <h2 className="text-lg font-bold text-white mb-4">{t('library.title')}</h2>
+             <LibraryView
+               library={library}
+               onUpdate={setLibrary}
+               onToggleFavorite={toggleFavorite}
+               linkProviders={linkProviders}
+             />
+          </div>
         ) : (
           <div className="animate-in fade-in slide-in-from-bottom-4 duration-300">
-             <h2 className="text-lg font-bold text-white mb-4">Your Library</h2>
-             {renderSongList(favorites, "You haven't added any songs to your favorites yet.")}
+             <h2 className="text-lg font-bold text-white mb-4">{t('history.title')}</h2>
+             <HistoryList
+               entries={history}
+               onRerun={handleRerun}
+               onDelete={handleDeleteHistory}
+               onClear={handleClearHistory}
+             />
           </div>
         )}
       </main>
     </div>
+    </I18nContext.Provider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,84 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import AudioRecorder from './AudioRecorder';
+import { FakeMediaRecorder, installMicrophone } from '../test/fakes/media';
+
+// Draws with AudioContext and canvas, neither of which jsdom has
+vi.mock('./RecordingVisualizer', () => ({ default: () => null }));
+
+const renderRecorder = (props: Partial<React.ComponentProps<typeof AudioRecorder>> = {}) => {
+  const onRecordingComplete = vi.fn();
+  const onClear = vi.fn();
+  render(<AudioRecorder onRecordingComplete={onRecordingComplete} onClear={onClear} {...props} />);
+  return { onRecordingComplete, onClear };
+};
+
+describe('AudioRecorder', () => {
+  it('goes idle → recording → processing → finished → idle', async () => {
+    const { stream } = installMicrophone();
+    // jsdom can't decode audio, so the capture is sent as recorded
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { onRecordingComplete, onClear } = renderRecorder();
+
+    // IDLE
+    expect(screen.getByText('Tap to hum, sing, or whistle — or drop a clip')).toBeInTheDocument();
+    fireEvent.click(screen.getByTitle('Start Recording'));
+
+    // RECORDING
+    expect(await screen.findByText('Recording... Sing clearly!')).toBeInTheDocument();
+    expect(FakeMediaRecorder.instances[0].state).toBe('recording');
+    fireEvent.click(screen.getByTitle('Stop Recording'));
+
+    // PROCESSING, then FINISHED once the clip is handed over
+    expect(screen.getByText('Cleaning up audio...')).toBeInTheDocument();
+    expect(await screen.findByText('Audio Captured')).toBeInTheDocument();
+    expect(onRecordingComplete).toHaveBeenCalledWith(expect.any(String), 'audio/webm', expect.any(Array));
+    expect(stream.tracks[0].stop).toHaveBeenCalled();
+
+    // Back to IDLE
+    fireEvent.click(screen.getByText('Discard'));
+    expect(onClear).toHaveBeenCalled();
+    expect(screen.getByTitle('Start Recording')).toBeInTheDocument();
+  });
+
+  it('starts finished when a recording is already there', () => {
+    renderRecorder({ hasRecording: true });
+    expect(screen.getByText('Audio Captured')).toBeInTheDocument();
+  });
+
+  it('explains a denied microphone and offers an upload instead', async () => {
+    installMicrophone({ fail: 'NotAllowedError' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    renderRecorder();
+
+    fireEvent.click(screen.getByTitle('Start Recording'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Microphone access is blocked');
+    expect(screen.getByRole('button', { name: 'Upload a file' })).toBeInTheDocument();
+    // Still idle: the record button is there to try again
+    expect(screen.getByTitle('Start Recording')).toBeInTheDocument();
+  });
+
+  it('tells a missing microphone apart from a denied one', async () => {
+    installMicrophone({ fail: 'NotFoundError' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    renderRecorder();
+
+    fireEvent.click(screen.getByTitle('Start Recording'));
+
+    await waitFor(() => expect(screen.getByRole('alert')).toHaveTextContent('No working microphone was found'));
+  });
+
+  it('turns the microphone off again when recording can\'t start', async () => {
+    const { stream } = installMicrophone({ failRecorder: true });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    renderRecorder();
+
+    fireEvent.click(screen.getByTitle('Start Recording'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('No working microphone was found');
+    expect(stream.tracks[0].stop).toHaveBeenCalled();
+    expect(screen.getByTitle('Start Recording')).toBeInTheDocument();
+  });
+});
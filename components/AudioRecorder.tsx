@@ -1,15 +1,40 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, Square, Trash2, CheckCircle2 } from 'lucide-react';
-import { RecorderStatus } from '../types';
+import { Mic, Square, Trash2, CheckCircle2, Upload, Loader2 } from 'lucide-react';
+import { ErrorInfo, PitchPoint, RecorderStatus } from '../types';
+import { blobToBase64 } from '../services/audioEncoding';
+import { ACCEPTED_AUDIO, AudioFileError, MAX_AUDIO_SECONDS, canonicalMimeType, validateAudioFile } from '../services/audioFiles';
+import { ClipBounds, PreparedClip, findSoundBounds, prepareClip, renderClip } from '../services/audioPreprocessing';
+import { extractPitchContour } from '../services/pitchDetection';
+import { microphoneError, toErrorInfo } from '../services/appErrors';
+import WaveformTrimmer from './WaveformTrimmer';
+import RecordingVisualizer from './RecordingVisualizer';
+import ErrorNotice from './ErrorNotice';
+import { useI18n } from './I18nContext';
+
+// Wait for the user to stop dragging a trim handle before re-encoding
+const TRIM_DEBOUNCE_MS = 250;
 
 interface AudioRecorderProps {
-  onRecordingComplete: (base64: string, mimeType: string) => void;
+  // pitchContour is the F0 trace of the capture, when one could be taken.
+  onRecordingComplete: (base64: string, mimeType: string, pitchContour?: PitchPoint[]) => void;
   onClear: () => void;
+  // Start in the finished state, e.g. when a search is re-run from history.
+  hasRecording?: boolean;
 }
 
-const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onClear }) => {
-  const [status, setStatus] = useState<RecorderStatus>(RecorderStatus.IDLE);
+const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onClear, hasRecording = false }) => {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<RecorderStatus>(hasRecording ? RecorderStatus.FINISHED : RecorderStatus.IDLE);
   const [timer, setTimer] = useState(0);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [micError, setMicError] = useState<ErrorInfo | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [clip, setClip] = useState<PreparedClip | null>(null);
+  const [bounds, setBounds] = useState<ClipBounds | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const contourRef = useRef<PitchPoint[] | undefined>(undefined);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const trimTimeoutRef = useRef<number | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerIntervalRef = useRef<number | null>(null);
@@ -17,15 +42,75 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onCl
   useEffect(() => {
     return () => {
       if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+      if (trimTimeoutRef.current) clearTimeout(trimTimeoutRef.current);
     };
   }, []);
 
+  // Follow the parent: audio cleared elsewhere (Clear All) resets us, audio
+  // restored elsewhere (history re-run) shows as captured.
+  useEffect(() => {
+    if (!hasRecording && status === RecorderStatus.FINISHED) {
+      resetState();
+    } else if (hasRecording && status === RecorderStatus.IDLE) {
+      setStatus(RecorderStatus.FINISHED);
+    }
+  }, [hasRecording]);
+
+  const emitClip = async (prepared: PreparedClip, clipBounds: ClipBounds) => {
+    const base64String = await blobToBase64(renderClip(prepared, clipBounds));
+    onRecordingComplete(base64String, 'audio/wav', contourRef.current);
+  };
+
+  // Every capture goes through here: decode, trim silence, normalize and
+  // downsample before anything is sent.
+  const finishCapture = async (blob: Blob, mimeType: string, liveContour?: PitchPoint[]) => {
+    setStatus(RecorderStatus.PROCESSING);
+    contourRef.current = liveContour;
+    try {
+      const prepared = await prepareClip(blob);
+      const initialBounds = findSoundBounds(prepared);
+      // Uploads have no live trace, so take one from the decoded audio
+      contourRef.current ??= extractPitchContour(prepared.samples, prepared.sampleRate);
+      setClip(prepared);
+      setBounds(initialBounds);
+      await emitClip(prepared, initialBounds);
+    } catch (err) {
+      // The browser can't decode this format; send it untouched instead
+      console.warn("Audio preprocessing failed, sending original:", err);
+      setClip(null);
+      setBounds(null);
+      onRecordingComplete(await blobToBase64(blob), mimeType, contourRef.current);
+    }
+    setStatus(RecorderStatus.FINISHED);
+  };
+
+  const handleTrimChange = (nextBounds: ClipBounds) => {
+    setBounds(nextBounds);
+    if (trimTimeoutRef.current) clearTimeout(trimTimeoutRef.current);
+    trimTimeoutRef.current = window.setTimeout(() => {
+      if (clip) emitClip(clip, nextBounds);
+    }, TRIM_DEBOUNCE_MS);
+  };
+
+  // Raw recordings are capped too; preprocessing trims further
+  useEffect(() => {
+    if (status === RecorderStatus.RECORDING && timer >= MAX_AUDIO_SECONDS) {
+      stopRecording();
+    }
+  }, [timer]);
+
   const startRecording = async () => {
+    setMicError(null);
+    // Kept outside the try so a failure after getUserMedia still releases it
+    let acquired: MediaStream | null = null;
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      acquired = stream;
       const mediaRecorder = new MediaRecorder(stream);
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
+      const liveContour: PitchPoint[] = [];
+      contourRef.current = liveContour;
 
       mediaRecorder.ondataavailable = (e) => {
         if (e.data.size > 0) {
@@ -34,18 +119,19 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onCl
       };
 
       mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
-        const reader = new FileReader();
-        reader.readAsDataURL(blob);
-        reader.onloadend = () => {
-          const base64String = (reader.result as string).split(',')[1];
-          onRecordingComplete(base64String, blob.type);
-        };
+        // Browsers pick their own container (Safari records mp4, not webm)
+        const recordedType = mediaRecorder.mimeType || chunksRef.current[0]?.type || '';
+        const mimeType = canonicalMimeType(recordedType) ?? 'audio/webm';
+        const blob = new Blob(chunksRef.current, { type: mimeType });
+        finishCapture(blob, mimeType, liveContour);
         // Stop all tracks to release microphone
         stream.getTracks().forEach(track => track.stop());
+        setStream(null);
       };
 
       mediaRecorder.start();
+      setStream(stream);
+      setFileError(null);
       setStatus(RecorderStatus.RECORDING);
       
       setTimer(0);
@@ -55,22 +141,66 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onCl
 
     } catch (err) {
       console.error("Error accessing microphone:", err);
-      alert("Microphone access denied or not available.");
+      acquired?.getTracks().forEach(track => track.stop());
+      setMicError(toErrorInfo(microphoneError(err)));
     }
   };
 
   const stopRecording = () => {
     if (mediaRecorderRef.current && status === RecorderStatus.RECORDING) {
       mediaRecorderRef.current.stop();
-      setStatus(RecorderStatus.FINISHED);
+      setStatus(RecorderStatus.PROCESSING);
       if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
     }
   };
 
-  const clearRecording = () => {
+  const handleFile = async (file: File) => {
+    setFileError(null);
+    setMicError(null);
+    try {
+      const { mimeType } = await validateAudioFile(file);
+      await finishCapture(file, mimeType);
+    } catch (err) {
+      console.error("Error loading audio file:", err);
+      setFileError(err instanceof AudioFileError ? t(err.messageKey, err.params) : t('recorder.unreadableFile'));
+    }
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+    if (file) handleFile(file);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (status !== RecorderStatus.IDLE) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (status !== RecorderStatus.IDLE) return;
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const resetState = () => {
+    if (trimTimeoutRef.current) clearTimeout(trimTimeoutRef.current);
+    setFileError(null);
+    setMicError(null);
     setStatus(RecorderStatus.IDLE);
     setTimer(0);
+    setClip(null);
+    setBounds(null);
+    contourRef.current = undefined;
     chunksRef.current = [];
+  };
+
+  const clearRecording = () => {
+    resetState();
     onClear();
   };
 
@@ -81,16 +211,37 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onCl
   };
 
   return (
-    <div className="flex flex-col items-center gap-2 my-4 w-full">
+    <div
+      className={`flex flex-col items-center gap-2 my-4 w-full rounded-xl transition-colors ${isDragging ? 'bg-jacare-500/10 outline-dashed outline-2 outline-jacare-500' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
       <div className="flex items-center gap-3">
         {status === RecorderStatus.IDLE && (
-          <button
-            onClick={startRecording}
-            className="flex items-center justify-center w-14 h-14 rounded-full bg-zinc-800 border-2 border-zinc-600 text-white hover:bg-zinc-700 hover:border-zinc-500 transition-all active:scale-95 shadow-lg"
-            title="Start Recording"
-          >
-            <Mic size={24} />
-          </button>
+          <>
+            <button
+              onClick={startRecording}
+              className="flex items-center justify-center w-14 h-14 rounded-full bg-zinc-800 border-2 border-zinc-600 text-white hover:bg-zinc-700 hover:border-zinc-500 transition-all active:scale-95 shadow-lg"
+              title={t('recorder.start')}
+            >
+              <Mic size={24} />
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center justify-center w-10 h-10 rounded-full bg-zinc-800 border border-zinc-700 text-gray-400 hover:text-white hover:border-zinc-500 transition-all active:scale-95"
+              title={t('recorder.upload')}
+            >
+              <Upload size={18} />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_AUDIO}
+              className="hidden"
+              onChange={handleFileInput}
+            />
+          </>
         )}
 
         {status === RecorderStatus.RECORDING && (
@@ -100,6 +251,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onCl
               <button
                 onClick={stopRecording}
                 className="relative flex items-center justify-center w-14 h-14 rounded-full bg-red-600 text-white hover:bg-red-700 transition-all shadow-lg shadow-red-900/50"
+                title={t('recorder.stop')}
               >
                 <Square size={20} fill="currentColor" />
               </button>
@@ -108,29 +260,50 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, onCl
           </div>
         )}
 
+        {status === RecorderStatus.PROCESSING && (
+          <div className="flex items-center justify-center w-14 h-14 rounded-full bg-zinc-800 border-2 border-zinc-600 text-jacare-500">
+            <Loader2 className="animate-spin" size={24} />
+          </div>
+        )}
+
         {status === RecorderStatus.FINISHED && (
           <div className="flex items-center gap-3 animate-fade-in">
              <div className="flex items-center justify-center w-14 h-14 rounded-full bg-jacare-500 text-white shadow-lg shadow-jacare-500/30">
                 <CheckCircle2 size={24} />
              </div>
              <div className="flex flex-col">
-                <span className="text-jacare-500 font-semibold text-sm">Audio Captured</span>
+                <span className="text-jacare-500 font-semibold text-sm">{t('recorder.captured')}</span>
                 <button 
                   onClick={clearRecording}
                   className="text-xs text-gray-400 hover:text-red-400 flex items-center gap-1 mt-1 transition-colors"
                 >
-                  <Trash2 size={12} /> Discard
+                  <Trash2 size={12} /> {t('recorder.discard')}
                 </button>
              </div>
           </div>
         )}
       </div>
+
+      {status === RecorderStatus.RECORDING && stream && (
+        <RecordingVisualizer stream={stream} onPitch={(point) => contourRef.current?.push(point)} />
+      )}
+
+      {status === RecorderStatus.FINISHED && clip && bounds && (
+        <WaveformTrimmer clip={clip} bounds={bounds} onChange={handleTrimChange} />
+      )}
       
-      <div className="h-4 text-xs font-medium text-gray-500">
-        {status === RecorderStatus.IDLE && "Tap to hum, sing, or whistle"}
-        {status === RecorderStatus.RECORDING && "Recording... Sing clearly!"}
-        {status === RecorderStatus.FINISHED && "Ready to search"}
+      <div className={`h-4 text-xs font-medium ${fileError ? 'text-red-400' : 'text-gray-500'}`}>
+        {status === RecorderStatus.IDLE && (fileError || t(isDragging ? 'recorder.dropHint' : 'recorder.idleHint'))}
+        {status === RecorderStatus.RECORDING && t('recorder.recordingHint')}
+        {status === RecorderStatus.PROCESSING && t('recorder.processing')}
+        {status === RecorderStatus.FINISHED && t('recorder.ready')}
       </div>
+
+      {status === RecorderStatus.IDLE && micError && (
+        <div className="w-full">
+          <ErrorNotice error={micError} actions={{ upload_audio: () => fileInputRef.current?.click() }} />
+        </div>
+      )}
     </div>
   );
 };
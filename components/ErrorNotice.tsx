@@ -0,0 +1,51 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { ErrorInfo } from '../types';
+import { RECOVERY, RecoveryAction, errorMessageKey } from '../services/appErrors';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nContext';
+
+const ACTION_LABELS: Record<RecoveryAction, MessageKey> = {
+  retry: 'error.action.retry',
+  edit_text: 'error.action.editText',
+  discard_audio: 'error.action.discardAudio',
+  upload_audio: 'error.action.uploadAudio',
+};
+
+interface ErrorNoticeProps {
+  error: ErrorInfo;
+  // Handlers for the recovery actions this screen can offer; the button is
+  // left out when the error's action has none.
+  actions: Partial<Record<RecoveryAction, () => void>>;
+}
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, actions }) => {
+  const { t } = useI18n();
+  const recovery = RECOVERY[error.code];
+  const onRecover = recovery ? actions[recovery] : undefined;
+
+  return (
+    <div role="alert" className="bg-red-900/20 border border-red-900/50 p-4 rounded-xl flex items-start gap-3">
+      <AlertCircle className="text-red-500 shrink-0 mt-0.5" size={20} />
+      <div className="flex-1 flex flex-col gap-2">
+        <p className="text-red-200 text-sm">
+          {t(errorMessageKey(error.code))}
+          {error.retryAfterMs !== undefined && ` ${t('error.retryIn', { seconds: Math.ceil(error.retryAfterMs / 1000) })}`}
+        </p>
+        {error.attempts !== undefined && (
+          <p className="text-[11px] text-red-300/60 font-mono">{t('error.diagnostics', { code: error.code, count: error.attempts })}</p>
+        )}
+        {recovery && onRecover && (
+          <button
+            onClick={onRecover}
+            className="self-start text-xs font-semibold text-red-100 bg-red-900/40 hover:bg-red-900/60 border border-red-900/60 px-3 py-1.5 rounded-lg transition-colors"
+          >
+            {t(ACTION_LABELS[recovery])}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ErrorNotice;
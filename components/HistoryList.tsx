@@ -0,0 +1,90 @@
+import React from 'react';
+import { History, Mic, RotateCcw, Trash2 } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { useI18n } from './I18nContext';
+
+interface HistoryListProps {
+  entries: HistoryEntry[];
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  onClear: () => void;
+}
+
+const formatTimestamp = (timestamp: number, locale: string) =>
+  new Date(timestamp).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' });
+
+const HistoryList: React.FC<HistoryListProps> = ({ entries, onRerun, onDelete, onClear }) => {
+  const { t, locale } = useI18n();
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-10 opacity-50">
+        <History size={48} className="mx-auto mb-3 text-gray-600" />
+        <p className="text-gray-400 text-sm">{t('history.empty')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex justify-end">
+        <button
+          onClick={onClear}
+          className="text-gray-500 text-xs font-medium hover:text-red-400 transition-colors flex items-center gap-1"
+        >
+          <Trash2 size={12} /> {t('history.clear')}
+        </button>
+      </div>
+
+      {entries.map((entry) => {
+        const topResult = entry.results[0];
+        return (
+          <div
+            key={entry.id}
+            className="bg-jacare-800 p-4 rounded-xl border border-gray-700/50 flex items-center gap-3"
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-white text-sm truncate">
+                {entry.text.trim() || <span className="italic text-gray-400">{t('history.audioOnly')}</span>}
+              </p>
+              <div className="flex items-center gap-2 mt-1 text-[11px] text-gray-500">
+                {entry.audio && (
+                  <span className="inline-flex items-center gap-1 text-jacare-500">
+                    <Mic size={10} /> {t('history.audio')}
+                  </span>
+                )}
+                <span>{formatTimestamp(entry.timestamp, locale)}</span>
+                <span>·</span>
+                <span>{t('history.resultCount', { count: entry.results.length })}</span>
+              </div>
+              {topResult && (
+                <p className="text-gray-400 text-xs truncate mt-1">
+                  {topResult.titulo} — {topResult.artista}
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <button
+                className="w-8 h-8 rounded-full bg-jacare-500/10 text-jacare-500 flex items-center justify-center hover:bg-jacare-500 hover:text-white transition-all"
+                onClick={() => onRerun(entry)}
+                title={t('history.rerun')}
+              >
+                <RotateCcw size={16} />
+              </button>
+              <button
+                className="w-8 h-8 rounded-full bg-gray-700/30 text-gray-400 flex items-center justify-center hover:bg-red-500/10 hover:text-red-500 transition-all"
+                onClick={() => onDelete(entry)}
+                title={t('history.remove')}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default HistoryList;
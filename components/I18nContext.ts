@@ -0,0 +1,8 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_LOCALE, Translator, createTranslator } from '../services/i18n';
+
+// App provides the user's locale; components rendered on their own (without
+// App around them) fall back to English.
+export const I18nContext = createContext<Translator>(createTranslator(DEFAULT_LOCALE));
+
+export const useI18n = () => useContext(I18nContext);
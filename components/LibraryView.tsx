@@ -0,0 +1,355 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, Download, FileUp, ListMusic, Music2, Plus, Search, Trash2 } from 'lucide-react';
+import { Library, LibraryEntry, LibrarySort, Playlist, Song } from '../types';
+import {
+  createPlaylist,
+  deletePlaylist,
+  filterEntries,
+  parseTags,
+  renamePlaylist,
+  sortEntries,
+  togglePlaylistSong,
+  updateEntry,
+} from '../services/library';
+import {
+  IMPORT_ACCEPT,
+  ImportError,
+  TRANSFER_FORMATS,
+  TransferFormat,
+  exportLibrary,
+  mergeLibraries,
+  parseImport,
+} from '../services/libraryTransfer';
+import { LinkProvider } from '../services/linkProviders';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nContext';
+import SongCard from './SongCard';
+
+interface LibraryViewProps {
+  library: Library;
+  onUpdate: (update: (library: Library) => Library) => void;
+  onToggleFavorite: (song: Song) => void;
+  // Passed through to the cards; the first one is also used for exported playlists.
+  linkProviders: LinkProvider[];
+}
+
+const SORT_LABELS: Record<LibrarySort, MessageKey> = {
+  addedAt: 'library.sort.addedAt',
+  titulo: 'library.sort.titulo',
+  artista: 'library.sort.artista',
+  confidence: 'library.sort.confidence',
+};
+
+const FORMAT_LABELS: Record<TransferFormat, MessageKey> = {
+  json: 'transfer.format.json',
+  csv: 'transfer.format.csv',
+  m3u: 'transfer.format.m3u',
+  xspf: 'transfer.format.xspf',
+};
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const fileSafe = (name: string) => name.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'playlist';
+
+const formatDate = (timestamp: number, locale: string) => new Date(timestamp).toLocaleDateString(locale, { dateStyle: 'medium' });
+
+interface EntryDetailsProps {
+  entry: LibraryEntry;
+  playlists: Playlist[];
+  expanded: boolean;
+  onToggleExpanded: () => void;
+  onUpdate: LibraryViewProps['onUpdate'];
+}
+
+const EntryDetails: React.FC<EntryDetailsProps> = ({ entry, playlists, expanded, onToggleExpanded, onUpdate }) => {
+  const { t, locale } = useI18n();
+  const [tagsInput, setTagsInput] = useState(entry.tags.join(', '));
+  const songId = entry.song.id;
+
+  return (
+    <div className="flex flex-col gap-2 border-t border-gray-700/50 pt-2">
+      <div className="flex items-center gap-2 text-[11px] text-gray-500">
+        <span>{t('library.added', { date: formatDate(entry.addedAt, locale) })}</span>
+        {entry.tags.map(tag => (
+          <span key={tag} className="px-1.5 py-0.5 rounded bg-gray-900 text-gray-300 border border-gray-700">#{tag}</span>
+        ))}
+        <button
+          onClick={onToggleExpanded}
+          className="ml-auto flex items-center gap-0.5 text-gray-400 hover:text-white transition-colors"
+        >
+          {expanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />} {t(expanded ? 'library.close' : 'library.edit')}
+        </button>
+      </div>
+
+      {!expanded && entry.notes && (
+        <p className="text-xs text-gray-400 line-clamp-2 whitespace-pre-line">{entry.notes}</p>
+      )}
+
+      {expanded && (
+        <div className="flex flex-col gap-2">
+          <input
+            className="w-full bg-jacare-900/50 text-white rounded-lg px-3 py-2 border border-gray-700 focus:border-jacare-500 outline-none text-xs placeholder-gray-600"
+            placeholder={t('library.tagsPlaceholder')}
+            value={tagsInput}
+            onChange={(e) => setTagsInput(e.target.value)}
+            onBlur={() => {
+              const tags = parseTags(tagsInput);
+              setTagsInput(tags.join(', '));
+              onUpdate(lib => updateEntry(lib, songId, { tags }));
+            }}
+          />
+          <textarea
+            className="w-full bg-jacare-900/50 text-white rounded-lg px-3 py-2 min-h-[60px] border border-gray-700 focus:border-jacare-500 outline-none resize-none text-xs placeholder-gray-600"
+            placeholder={t('library.notesPlaceholder')}
+            value={entry.notes}
+            onChange={(e) => {
+              const notes = e.target.value;
+              onUpdate(lib => updateEntry(lib, songId, { notes }));
+            }}
+          />
+          {playlists.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {playlists.map(playlist => {
+                const inPlaylist = playlist.songIds.includes(songId);
+                return (
+                  <button
+                    key={playlist.id}
+                    onClick={() => onUpdate(lib => togglePlaylistSong(lib, playlist.id, songId))}
+                    className={`px-2 py-1 rounded-full text-[11px] border transition-colors ${inPlaylist ? 'bg-jacare-500/20 border-jacare-500 text-jacare-500' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+                  >
+                    {inPlaylist ? '✓ ' : '+ '}{playlist.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LibraryView: React.FC<LibraryViewProps> = ({ library, onUpdate, onToggleFavorite, linkProviders }) => {
+  const { t } = useI18n();
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<LibrarySort>('addedAt');
+  const [playlistId, setPlaylistId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [newPlaylistName, setNewPlaylistName] = useState<string | null>(null);
+  const [transferMessage, setTransferMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  const activePlaylist = library.playlists.find(p => p.id === playlistId) ?? null;
+
+  const visibleEntries = useMemo(() => {
+    const inPlaylist = activePlaylist
+      ? library.entries.filter(entry => activePlaylist.songIds.includes(entry.song.id))
+      : library.entries;
+    return sortEntries(filterEntries(inPlaylist, filter), sort);
+  }, [library.entries, activePlaylist, filter, sort]);
+
+  const handleCreatePlaylist = () => {
+    if (!newPlaylistName?.trim()) {
+      setNewPlaylistName(null);
+      return;
+    }
+    const name = newPlaylistName;
+    const id = crypto.randomUUID();
+    onUpdate(lib => createPlaylist(lib, name, id));
+    setPlaylistId(id);
+    setNewPlaylistName(null);
+  };
+
+  const handleRenamePlaylist = () => {
+    if (!activePlaylist) return;
+    const name = window.prompt(t('library.renamePrompt'), activePlaylist.name);
+    if (name) onUpdate(lib => renamePlaylist(lib, activePlaylist.id, name));
+  };
+
+  const handleDeletePlaylist = () => {
+    if (!activePlaylist) return;
+    if (!window.confirm(t('library.deleteConfirm', { name: activePlaylist.name }))) return;
+    onUpdate(lib => deletePlaylist(lib, activePlaylist.id));
+    setPlaylistId(null);
+  };
+
+  const handleExport = (format: TransferFormat) => {
+    const { extension, mimeType } = TRANSFER_FORMATS[format];
+    // JSON is always the full backup; the rest follow the selected playlist
+    const scope = format !== 'json' && activePlaylist ? activePlaylist : null;
+    const baseName = scope ? fileSafe(scope.name) : 'jacarefinder-favorites';
+    downloadFile(exportLibrary(library, format, scope, linkProviders[0]), `${baseName}.${extension}`, mimeType);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { library: incoming, skipped } = parseImport(file.name, await file.text());
+      const { added, duplicates } = mergeLibraries(library, incoming);
+      onUpdate(lib => mergeLibraries(lib, incoming).library);
+      const notes = [
+        duplicates > 0 && t('library.importedDuplicates', { count: duplicates }),
+        skipped > 0 && t('library.importedSkipped', { count: skipped }),
+      ].filter(Boolean);
+      setTransferMessage({
+        text: t('library.imported', { count: added }) + (notes.length > 0 ? ` (${notes.join('; ')})` : '') + '.',
+        isError: false,
+      });
+    } catch (err) {
+      console.error("Import failed:", err);
+      setTransferMessage({
+        text: err instanceof ImportError ? t(err.messageKey, err.params) : t('library.importFailed'),
+        isError: true,
+      });
+    }
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs font-medium border whitespace-nowrap transition-colors ${active ? 'bg-jacare-500 border-jacare-500 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`;
+
+  return (
+    <div className="flex flex-col gap-3">
+      {/* Playlists */}
+      <div className="flex items-center gap-2 overflow-x-auto pb-1">
+        <button onClick={() => setPlaylistId(null)} className={chipClass(playlistId === null)}>
+          {t('library.all', { count: library.entries.length })}
+        </button>
+        {library.playlists.map(playlist => (
+          <button key={playlist.id} onClick={() => setPlaylistId(playlist.id)} className={chipClass(playlist.id === playlistId)}>
+            {playlist.name} ({playlist.songIds.length})
+          </button>
+        ))}
+        {newPlaylistName === null ? (
+          <button
+            onClick={() => setNewPlaylistName('')}
+            className="w-7 h-7 shrink-0 rounded-full border border-dashed border-gray-600 text-gray-400 hover:text-white flex items-center justify-center"
+            title={t('library.newPlaylist')}
+          >
+            <Plus size={14} />
+          </button>
+        ) : (
+          <input
+            autoFocus
+            className="bg-jacare-900/50 text-white rounded-full px-3 py-1 border border-jacare-500 outline-none text-xs w-32"
+            placeholder={t('library.playlistName')}
+            value={newPlaylistName}
+            onChange={(e) => setNewPlaylistName(e.target.value)}
+            onBlur={handleCreatePlaylist}
+            onKeyDown={(e) => {
+              // Blurring commits, so Enter doesn't create it twice
+              if (e.key === 'Enter') e.currentTarget.blur();
+              if (e.key === 'Escape') setNewPlaylistName(null);
+            }}
+          />
+        )}
+      </div>
+
+      {activePlaylist && (
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          <ListMusic size={14} className="text-jacare-500" />
+          <span className="text-gray-300 font-medium">{activePlaylist.name}</span>
+          <button onClick={handleRenamePlaylist} className="hover:text-white transition-colors">{t('library.rename')}</button>
+          <button onClick={handleDeletePlaylist} className="hover:text-red-400 transition-colors flex items-center gap-1">
+            <Trash2 size={12} /> {t('library.delete')}
+          </button>
+        </div>
+      )}
+
+      {/* Import / export */}
+      <div className="flex items-center gap-2 text-xs">
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="flex items-center gap-1 px-2 py-1 rounded-lg border border-gray-700 text-gray-400 hover:text-white transition-colors"
+        >
+          <FileUp size={12} /> {t('library.import')}
+        </button>
+        <input ref={importInputRef} type="file" accept={IMPORT_ACCEPT} className="hidden" onChange={handleImport} />
+        <div className="flex items-center gap-1 text-gray-500">
+          <Download size={12} />
+          <select
+            className="bg-transparent text-gray-400 outline-none hover:text-white"
+            value=""
+            disabled={library.entries.length === 0}
+            onChange={(e) => handleExport(e.target.value as TransferFormat)}
+          >
+            <option value="" disabled>{activePlaylist ? t('library.exportPlaylist', { name: activePlaylist.name }) : t('library.exportLibrary')}</option>
+            {(Object.keys(TRANSFER_FORMATS) as TransferFormat[]).map(format => (
+              <option key={format} value={format}>{t(FORMAT_LABELS[format])}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {transferMessage && (
+        <p className={`text-xs ${transferMessage.isError ? 'text-red-400' : 'text-jacare-500'}`}>{transferMessage.text}</p>
+      )}
+
+      {/* Filter and sort */}
+      <div className="flex gap-2">
+        <div className="flex-1 relative">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            className="w-full bg-jacare-900/50 text-white rounded-lg pl-8 pr-3 py-2 border border-gray-700 focus:border-jacare-500 outline-none text-xs placeholder-gray-600"
+            placeholder={t('library.filterPlaceholder')}
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+        </div>
+        <select
+          className="bg-jacare-900/50 text-gray-300 rounded-lg px-2 py-2 border border-gray-700 focus:border-jacare-500 outline-none text-xs"
+          value={sort}
+          onChange={(e) => setSort(e.target.value as LibrarySort)}
+        >
+          {(Object.keys(SORT_LABELS) as LibrarySort[]).map(key => (
+            <option key={key} value={key}>{t(SORT_LABELS[key])}</option>
+          ))}
+        </select>
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <div className="text-center py-10 opacity-50">
+          <Music2 size={48} className="mx-auto mb-3 text-gray-600" />
+          <p className="text-gray-400 text-sm">
+            {library.entries.length === 0
+              ? t('library.empty')
+              : activePlaylist && activePlaylist.songIds.length === 0 && !filter
+                ? t('library.emptyPlaylist')
+                : t('library.noMatches')}
+          </p>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-4">
+          {visibleEntries.map(entry => (
+            <SongCard
+              key={entry.song.id}
+              song={entry.song}
+              isFavorite
+              onToggleFavorite={onToggleFavorite}
+              linkProviders={linkProviders}
+            >
+              <EntryDetails
+                entry={entry}
+                playlists={library.playlists}
+                expanded={expandedId === entry.song.id}
+                onToggleExpanded={() => setExpandedId(expandedId === entry.song.id ? null : entry.song.id)}
+                onUpdate={onUpdate}
+              />
+            </SongCard>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryView;
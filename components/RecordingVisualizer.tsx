@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PitchPoint } from '../types';
+import { detectPitch, rmsLevel, toDecibels } from '../services/pitchDetection';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nContext';
+
+interface RecordingVisualizerProps {
+  stream: MediaStream;
+  onPitch: (point: PitchPoint) => void;
+}
+
+type LevelWarning = 'quiet' | 'clipping' | null;
+
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 80;
+const FFT_SIZE = 2048;
+// Pitch detection is the expensive part; 20 estimates a second is plenty
+// for a melody contour.
+const PITCH_INTERVAL_MS = 50;
+// Seconds of pitch history shown in the trace.
+const TRACE_SECONDS = 6;
+const QUIET_DB = -50;
+// Only complain about silence once it has lasted a while; people breathe.
+const QUIET_WARNING_MS = 1500;
+const CLIP_LEVEL = 0.99;
+const CLIP_HOLD_MS = 1000;
+// Trace is drawn on a log scale between these, roughly E2 to B5.
+const TRACE_MIN_HZ = 80;
+const TRACE_MAX_HZ = 1000;
+
+const WARNINGS: Record<Exclude<LevelWarning, null>, MessageKey> = {
+  quiet: 'recorder.tooQuiet',
+  clipping: 'recorder.clipping',
+};
+
+const RecordingVisualizer: React.FC<RecordingVisualizerProps> = ({ stream, onPitch }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const onPitchRef = useRef(onPitch);
+  const [warning, setWarning] = useState<LevelWarning>(null);
+  const [levelDb, setLevelDb] = useState(-Infinity);
+
+  onPitchRef.current = onPitch;
+
+  useEffect(() => {
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(stream);
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = FFT_SIZE;
+    source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    const trace: PitchPoint[] = [];
+    const startedAt = performance.now();
+    let lastPitchAt = 0;
+    let quietSince: number | null = null;
+    let clippedAt = -Infinity;
+    let frame = 0;
+
+    const draw = (now: number) => {
+      frame = requestAnimationFrame(draw);
+      analyser.getFloatTimeDomainData(samples);
+
+      const level = rmsLevel(samples);
+      let peak = 0;
+      for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+
+      if (peak >= CLIP_LEVEL) clippedAt = now;
+      if (toDecibels(level) < QUIET_DB) {
+        quietSince ??= now;
+      } else {
+        quietSince = null;
+      }
+      setWarning(
+        now - clippedAt < CLIP_HOLD_MS ? 'clipping'
+          : quietSince !== null && now - quietSince > QUIET_WARNING_MS ? 'quiet'
+          : null
+      );
+
+      if (now - lastPitchAt >= PITCH_INTERVAL_MS) {
+        lastPitchAt = now;
+        setLevelDb(toDecibels(level));
+        const point = {
+          time: (now - startedAt) / 1000,
+          frequency: detectPitch(samples, audioContext.sampleRate),
+        };
+        trace.push(point);
+        onPitchRef.current(point);
+      }
+
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+      // Waveform
+      ctx.strokeStyle = '#52525b';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (let x = 0; x < CANVAS_WIDTH; x++) {
+        const sample = samples[Math.floor((x / CANVAS_WIDTH) * samples.length)];
+        const y = (0.5 - sample / 2) * CANVAS_HEIGHT;
+        if (x === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+
+      // Pitch trace, newest on the right
+      const elapsed = (now - startedAt) / 1000;
+      const logMin = Math.log(TRACE_MIN_HZ);
+      const logRange = Math.log(TRACE_MAX_HZ) - logMin;
+      ctx.fillStyle = '#00A86B';
+      for (const { time, frequency } of trace) {
+        if (frequency === null || elapsed - time > TRACE_SECONDS) continue;
+        const x = CANVAS_WIDTH - ((elapsed - time) / TRACE_SECONDS) * CANVAS_WIDTH;
+        const ratio = (Math.log(frequency) - logMin) / logRange;
+        ctx.fillRect(x - 1.5, (1 - Math.min(1, Math.max(0, ratio))) * CANVAS_HEIGHT - 1.5, 3, 3);
+      }
+      while (trace.length && elapsed - trace[0].time > TRACE_SECONDS) trace.shift();
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      audioContext.close();
+    };
+  }, [stream]);
+
+  // -60 dB and below reads as empty, 0 dB as full
+  const meterPercent = Math.max(0, Math.min(100, ((levelDb + 60) / 60) * 100));
+
+  return (
+    <div className="w-full flex flex-col gap-1">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        className="w-full h-16 rounded-lg bg-jacare-900/60 border border-gray-800"
+      />
+      <div className="w-full h-1.5 rounded-full bg-gray-800 overflow-hidden">
+        <div
+          className={`h-full transition-[width] duration-75 ${warning === 'clipping' ? 'bg-red-500' : warning === 'quiet' ? 'bg-yellow-500' : 'bg-jacare-500'}`}
+          style={{ width: `${meterPercent}%` }}
+        />
+      </div>
+      {warning && (
+        <p className={`text-[11px] text-center ${warning === 'clipping' ? 'text-red-400' : 'text-yellow-400'}`}>
+          {t(WARNINGS[warning])}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RecordingVisualizer;
@@ -0,0 +1,198 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { GenerationSettings, LinkPreferences, SearchMode, SearchSettings } from '../types';
+import { listLinkProviders } from '../services/linkProviders';
+import { LOCALES, Locale, MessageKey } from '../services/i18n';
+import {
+  AVAILABLE_MODELS,
+  MAX_RESULTS_RANGE,
+  SEARCH_MODES,
+  TEMPERATURE_RANGE,
+  THOROUGH_MODEL,
+  defaultSearchSettings,
+} from '../services/searchSettings';
+import { useI18n } from './I18nContext';
+
+const MODE_LABELS: Record<SearchMode, MessageKey> = {
+  text: 'settings.mode.text',
+  audio: 'settings.mode.audio',
+  combined: 'settings.mode.combined',
+};
+
+interface SettingsPanelProps {
+  onChangeLocale: (locale: Locale) => void;
+  searchSettings: SearchSettings;
+  onChangeSearchSettings: (settings: SearchSettings) => void;
+  linkPreferences: LinkPreferences;
+  onChangeLinkPreferences: (preferences: LinkPreferences) => void;
+  onClose: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  onChangeLocale,
+  searchSettings,
+  onChangeSearchSettings,
+  linkPreferences,
+  onChangeLinkPreferences,
+  onClose,
+}) => {
+  const { t, locale } = useI18n();
+  const { visible, defaultProvider } = linkPreferences;
+
+  const toggleVisible = (id: string) => {
+    // The default always stays visible; pick another default to hide it
+    if (id === defaultProvider) return;
+    onChangeLinkPreferences({
+      ...linkPreferences,
+      visible: visible.includes(id) ? visible.filter(v => v !== id) : [...visible, id],
+    });
+  };
+
+  const setDefault = (id: string) => {
+    onChangeLinkPreferences({
+      visible: visible.includes(id) ? visible : [...visible, id],
+      defaultProvider: id,
+    });
+  };
+
+  const updateMode = (mode: SearchMode, changes: Partial<GenerationSettings>) => {
+    onChangeSearchSettings({
+      ...searchSettings,
+      modes: { ...searchSettings.modes, [mode]: { ...searchSettings.modes[mode], ...changes } },
+    });
+  };
+
+  return (
+    <section className="w-full bg-jacare-800 rounded-xl border border-gray-700 p-4 flex flex-col gap-3 animate-in fade-in slide-in-from-top-2 duration-200">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-bold text-white">{t('settings.title')}</h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" title={t('settings.close')}>
+          <X size={16} />
+        </button>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">{t('settings.language')}</h3>
+        <div className="flex gap-2">
+          {(Object.keys(LOCALES) as Locale[]).map(option => (
+            <button
+              key={option}
+              onClick={() => onChangeLocale(option)}
+              lang={option}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${option === locale ? 'bg-jacare-500 border-jacare-500 text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+            >
+              {LOCALES[option].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide">{t('settings.search')}</h3>
+          <button
+            onClick={() => onChangeSearchSettings(defaultSearchSettings())}
+            className="text-[11px] text-gray-500 hover:text-white transition-colors"
+          >
+            {t('settings.reset')}
+          </button>
+        </div>
+        <p className="text-[11px] text-gray-500 mb-2">{t('settings.searchHint')}</p>
+        <div className="flex flex-col gap-2">
+          {SEARCH_MODES.map(mode => {
+            const settings = searchSettings.modes[mode];
+            return (
+              <fieldset key={mode} className="border border-gray-700/60 rounded-lg p-2 flex flex-col gap-2">
+                <legend className="px-1 text-xs text-gray-200">{t(MODE_LABELS[mode])}</legend>
+                <label className="flex items-center justify-between gap-2 text-[11px] text-gray-400">
+                  {t('settings.model')}
+                  <select
+                    className="bg-jacare-900/50 text-gray-200 rounded px-1.5 py-1 border border-gray-700 outline-none text-xs"
+                    value={settings.model}
+                    onChange={(e) => updateMode(mode, { model: e.target.value })}
+                  >
+                    {AVAILABLE_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-2 text-[11px] text-gray-400">
+                  {t('settings.temperature')}
+                  <span className="flex items-center gap-2">
+                    <input
+                      type="range"
+                      className="accent-jacare-500 w-24"
+                      min={TEMPERATURE_RANGE.min}
+                      max={TEMPERATURE_RANGE.max}
+                      step={0.1}
+                      value={settings.temperature}
+                      onChange={(e) => updateMode(mode, { temperature: Number(e.target.value) })}
+                    />
+                    <span className="font-mono w-6 text-right text-gray-300">{settings.temperature.toFixed(1)}</span>
+                  </span>
+                </label>
+                <label className="flex items-center justify-between gap-2 text-[11px] text-gray-400">
+                  {t('settings.maxResults')}
+                  <input
+                    type="number"
+                    className="bg-jacare-900/50 text-gray-200 rounded px-1.5 py-1 border border-gray-700 outline-none text-xs w-14"
+                    min={MAX_RESULTS_RANGE.min}
+                    max={MAX_RESULTS_RANGE.max}
+                    value={settings.maxResults}
+                    onChange={(e) => {
+                      const value = Math.round(Number(e.target.value));
+                      if (value >= MAX_RESULTS_RANGE.min && value <= MAX_RESULTS_RANGE.max) updateMode(mode, { maxResults: value });
+                    }}
+                  />
+                </label>
+              </fieldset>
+            );
+          })}
+          <label className="flex items-start gap-2 text-sm text-gray-200 cursor-pointer">
+            <input
+              type="checkbox"
+              className="accent-jacare-500 mt-1"
+              checked={searchSettings.thorough}
+              onChange={(e) => onChangeSearchSettings({ ...searchSettings, thorough: e.target.checked })}
+            />
+            <span>
+              {t('settings.thorough')}
+              <span className="block text-[11px] text-gray-500">{t('settings.thoroughHint', { model: THOROUGH_MODEL })}</span>
+            </span>
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">{t('settings.links')}</h3>
+        <p className="text-[11px] text-gray-500 mb-2">{t('settings.linksHint')}</p>
+        <ul className="flex flex-col gap-1">
+          {listLinkProviders().map(provider => (
+            <li key={provider.id} className="flex items-center justify-between gap-3 text-sm">
+              <label className="flex items-center gap-2 text-gray-200 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="accent-jacare-500"
+                  checked={visible.includes(provider.id)}
+                  disabled={provider.id === defaultProvider}
+                  onChange={() => toggleVisible(provider.id)}
+                />
+                {provider.name}
+              </label>
+              <label className="flex items-center gap-1 text-[11px] text-gray-500 cursor-pointer">
+                <input
+                  type="radio"
+                  name="default-link-provider"
+                  className="accent-jacare-500"
+                  checked={provider.id === defaultProvider}
+                  onChange={() => setDefault(provider.id)}
+                />
+                {t('settings.defaultLink')}
+              </label>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </section>
+  );
+};
+
+export default SettingsPanel;
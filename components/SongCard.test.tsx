@@ -0,0 +1,29 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import SongCard from './SongCard';
+import { Song } from '../types';
+import { DEFAULT_LINK_PROVIDER, getLinkProvider } from '../services/linkProviders';
+import { parseImport } from '../services/libraryTransfer';
+import { validateSongs } from '../services/songValidation';
+
+const renderCard = (song: Song) =>
+  render(<SongCard song={song} isFavorite={false} onToggleFavorite={() => {}} linkProviders={[getLinkProvider(DEFAULT_LINK_PROVIDER)!]} />);
+
+describe('SongCard confidence', () => {
+  it('flags a model result without a score as a guess', () => {
+    const { songs: [song] } = validateSongs([{ titulo: 'Time', artista: 'Hans Zimmer', matchType: 'Contexto' }]);
+    renderCard(song);
+
+    expect(screen.getByText('0% Match')).toBeInTheDocument();
+    expect(screen.getByText('Guess')).toBeInTheDocument();
+  });
+
+  it('shows no score for a song imported without one', () => {
+    const { library } = parseImport('mix.m3u8', '#EXTM3U\n#EXTINF:-1,Hans Zimmer - Time\nhttps://example.com/1\n');
+    renderCard(library.entries[0].song);
+
+    expect(screen.queryByText(/% Match/)).not.toBeInTheDocument();
+    expect(screen.queryByText('Guess')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import {
+  Music2,
+  Play,
+  Heart,
+  AlertTriangle,
+  ExternalLink,
+  ThumbsDown,
+  ChevronDown,
+  ChevronUp,
+  CircleQuestionMark,
+  Quote,
+  Clapperboard,
+  AudioWaveform,
+  Timer,
+} from 'lucide-react';
+import { Song } from '../types';
+import { LinkProvider, songUrl } from '../services/linkProviders';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nContext';
+
+interface SongCardProps {
+  song: Song;
+  isFavorite: boolean;
+  onToggleFavorite: (song: Song) => void;
+  // Services to link out to; the first one backs the play button.
+  linkProviders: LinkProvider[];
+  // "Not it" marks for refining a search; the button only shows with a handler.
+  isRejected?: boolean;
+  onToggleRejected?: (song: Song) => void;
+  // Extra per-card content (library details), shown under the main row.
+  children?: React.ReactNode;
+}
+
+const MATCH_TYPE_LABELS: Record<Song['matchType'], MessageKey> = {
+  Texto: 'song.matchType.Texto',
+  Melodia: 'song.matchType.Melodia',
+  Contexto: 'song.matchType.Contexto',
+};
+
+// Below this the model is guessing (it's told as much in the prompt)
+const LOW_CONFIDENCE = 50;
+
+const EvidenceRow: React.FC<{ icon: React.ReactNode; label?: string; children: React.ReactNode }> = ({ icon, label, children }) => (
+  <div className="flex gap-2">
+    <span className="text-jacare-500 mt-0.5 shrink-0" title={label}>{icon}</span>
+    <div className="min-w-0">{children}</div>
+  </div>
+);
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const SongCard: React.FC<SongCardProps> = ({ song, isFavorite, onToggleFavorite, linkProviders, isRejected, onToggleRejected, children }) => {
+  const { t } = useI18n();
+  const [coverFailed, setCoverFailed] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const { evidence } = song;
+  const isGuess = !song.unscored && song.confidence < LOW_CONFIDENCE;
+  const [primaryLink, ...otherLinks] = linkProviders;
+  const releaseInfo = [song.album, song.releaseYear, song.durationMs && formatDuration(song.durationMs)].filter(Boolean).join(' · ');
+
+  return (
+  <div className={`bg-jacare-800 p-4 rounded-xl border border-gray-700/50 flex flex-col gap-3 group hover:border-jacare-500/50 transition-all ${isGuess ? 'border-dashed' : ''} ${isRejected ? 'opacity-50' : ''}`}>
+    <div className="flex items-center gap-4">
+      {/* Cover (placeholder until resolved, or when the archive has none) */}
+      <div className="w-14 h-14 bg-gray-700 rounded-lg flex items-center justify-center shrink-0 shadow-inner relative overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-br from-gray-700 to-gray-800" />
+        <Music2 className="text-gray-400 group-hover:text-jacare-500 transition-colors relative z-10" size={24} />
+        {song.coverArtUrl && !coverFailed && (
+          <img
+            src={song.coverArtUrl}
+            alt={song.album || song.titulo}
+            className="absolute inset-0 w-full h-full object-cover z-20"
+            loading="lazy"
+            onError={() => setCoverFailed(true)}
+          />
+        )}
+      </div>
+
+      {/* Info */}
+      <div className="flex-1 min-w-0">
+        <h3 className={`text-white font-bold text-base truncate ${isRejected ? 'line-through' : ''}`}>{song.titulo}</h3>
+        <p className="text-gray-400 text-sm truncate mb-1">{song.artista}</p>
+        {releaseInfo && <p className="text-gray-500 text-[11px] truncate -mt-1 mb-1">{releaseInfo}</p>}
+        
+        <div className="flex flex-wrap gap-2">
+          <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide bg-gray-900 text-jacare-500 border border-gray-700">
+            {t(MATCH_TYPE_LABELS[song.matchType])}
+          </span>
+          {!song.unscored && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium bg-gray-900 text-gray-400 border border-gray-700">
+              {t('song.confidence', { confidence: song.confidence })}
+            </span>
+          )}
+          {isGuess && (
+            <span
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium bg-gray-900 text-gray-400 border border-dashed border-gray-600"
+              title={t('song.guessHint')}
+            >
+              <CircleQuestionMark size={10} /> {t('song.guess')}
+            </span>
+          )}
+          {song.verified === false && (
+            <span
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-medium bg-yellow-900/20 text-yellow-400 border border-yellow-900/50"
+              title={t('song.unverifiedHint')}
+            >
+              <AlertTriangle size={10} /> {t('song.unverified')}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-col gap-2">
+        <button 
+          className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${isFavorite ? 'bg-red-500/10 text-red-500' : 'bg-gray-700/30 text-gray-400 hover:bg-red-500/10 hover:text-red-500'}`}
+          onClick={() => onToggleFavorite(song)}
+          title={t(isFavorite ? 'song.removeFavorite' : 'song.addFavorite')}
+        >
+          <Heart size={16} fill={isFavorite ? "currentColor" : "none"} />
+        </button>
+        
+        {primaryLink && (
+          <a
+            className="w-8 h-8 rounded-full bg-jacare-500/10 text-jacare-500 flex items-center justify-center hover:bg-jacare-500 hover:text-white transition-all"
+            href={songUrl(primaryLink, song)}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={t('song.openOn', { service: primaryLink.name })}
+          >
+            <Play size={16} fill="currentColor" />
+          </a>
+        )}
+
+        {onToggleRejected && (
+          <button
+            className={`w-8 h-8 rounded-full flex items-center justify-center transition-all ${isRejected ? 'bg-gray-600 text-white' : 'bg-gray-700/30 text-gray-400 hover:bg-gray-600 hover:text-white'}`}
+            onClick={() => onToggleRejected(song)}
+            title={t(isRejected ? 'song.undoNotIt' : 'song.notIt')}
+          >
+            <ThumbsDown size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+
+    {(song.description || evidence) && (
+      <div>
+        <button
+          onClick={() => setShowDetails(open => !open)}
+          className="flex items-center gap-1 text-[11px] text-gray-400 hover:text-white transition-colors"
+          aria-expanded={showDetails}
+        >
+          {showDetails ? <ChevronUp size={12} /> : <ChevronDown size={12} />} {t('song.details')}
+        </button>
+        {showDetails && (
+          <div className="mt-2 flex flex-col gap-2 text-xs text-gray-300 bg-jacare-900/40 rounded-lg p-3 border border-gray-700/50">
+            {song.description && <p className="text-gray-400">{song.description}</p>}
+            {evidence?.lyricFragments && (
+              <EvidenceRow icon={<Quote size={12} />} label={t('song.evidence.lyrics')}>
+                {evidence.lyricFragments.map(fragment => (
+                  <p key={fragment} className="italic">“{fragment}”</p>
+                ))}
+              </EvidenceRow>
+            )}
+            {evidence?.scene && (
+              <EvidenceRow icon={<Clapperboard size={12} />} label={t('song.evidence.scene')}>
+                {evidence.scene}
+              </EvidenceRow>
+            )}
+            {evidence?.melodicFeatures && (
+              <EvidenceRow icon={<AudioWaveform size={12} />} label={t('song.evidence.melody')}>
+                {evidence.melodicFeatures.join(' · ')}
+              </EvidenceRow>
+            )}
+            {evidence?.audioRange && (
+              <EvidenceRow icon={<Timer size={12} />}>
+                {t('song.evidence.audioRange', {
+                  start: formatDuration(evidence.audioRange.start * 1000),
+                  end: formatDuration(evidence.audioRange.end * 1000),
+                })}
+              </EvidenceRow>
+            )}
+          </div>
+        )}
+      </div>
+    )}
+
+    {otherLinks.length > 0 && (
+      <div className="flex flex-wrap gap-1.5">
+        {otherLinks.map(provider => (
+          <a
+            key={provider.id}
+            href={songUrl(provider, song)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-medium bg-gray-900/60 text-gray-400 border border-gray-700 hover:text-white hover:border-jacare-500/50 transition-colors"
+          >
+            <ExternalLink size={10} /> {provider.name}
+          </a>
+        ))}
+      </div>
+    )}
+
+    {children}
+  </div>
+  );
+};
+
+export default SongCard;
@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ClipBounds, MAX_CLIP_SECONDS, PreparedClip } from '../services/audioPreprocessing';
+import { useI18n } from './I18nContext';
+
+interface WaveformTrimmerProps {
+  clip: PreparedClip;
+  bounds: ClipBounds;
+  onChange: (bounds: ClipBounds) => void;
+}
+
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 64;
+const MIN_CLIP_SECONDS = 0.5;
+
+// One peak per canvas column; plenty for a thumbnail-sized waveform.
+const computePeaks = (samples: Float32Array, columns: number) => {
+  const peaks = new Float32Array(columns);
+  const perColumn = Math.max(1, Math.floor(samples.length / columns));
+  for (let c = 0; c < columns; c++) {
+    let peak = 0;
+    const from = c * perColumn;
+    for (let i = from; i < Math.min(samples.length, from + perColumn); i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    peaks[c] = peak;
+  }
+  return peaks;
+};
+
+const formatSeconds = (seconds: number) => seconds.toFixed(1) + 's';
+
+const WaveformTrimmer: React.FC<WaveformTrimmerProps> = ({ clip, bounds, onChange }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const peaks = useMemo(() => computePeaks(clip.samples, CANVAS_WIDTH), [clip]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    // Scale to the loudest column so quiet hums are still visible
+    const max = peaks.reduce((m, p) => Math.max(m, p), 0) || 1;
+    const startX = (bounds.start / clip.duration) * CANVAS_WIDTH;
+    const endX = (bounds.end / clip.duration) * CANVAS_WIDTH;
+
+    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    peaks.forEach((peak, x) => {
+      const h = Math.max(1, (peak / max) * CANVAS_HEIGHT);
+      ctx.fillStyle = x >= startX && x <= endX ? '#00A86B' : '#3f3f46';
+      ctx.fillRect(x, (CANVAS_HEIGHT - h) / 2, 1, h);
+    });
+  }, [peaks, bounds, clip.duration]);
+
+  const setStart = (start: number) => {
+    // Dragging start past the max length pulls the end along with it
+    const end = Math.min(Math.max(bounds.end, start + MIN_CLIP_SECONDS), start + MAX_CLIP_SECONDS, clip.duration);
+    onChange({ start: Math.min(start, end - MIN_CLIP_SECONDS), end });
+  };
+
+  const setEnd = (end: number) => {
+    const start = Math.max(Math.min(bounds.start, end - MIN_CLIP_SECONDS), end - MAX_CLIP_SECONDS, 0);
+    onChange({ start, end: Math.max(end, start + MIN_CLIP_SECONDS) });
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-1">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        className="w-full h-12 rounded-lg bg-jacare-900/60 border border-gray-800"
+      />
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col text-[10px] text-gray-500 uppercase tracking-wide">
+          {t('trimmer.start')}
+          <input
+            type="range"
+            min={0}
+            max={clip.duration}
+            step={0.05}
+            value={bounds.start}
+            onChange={(e) => setStart(Number(e.target.value))}
+            className="accent-jacare-500"
+          />
+        </label>
+        <label className="flex flex-col text-[10px] text-gray-500 uppercase tracking-wide">
+          {t('trimmer.end')}
+          <input
+            type="range"
+            min={0}
+            max={clip.duration}
+            step={0.05}
+            value={bounds.end}
+            onChange={(e) => setEnd(Number(e.target.value))}
+            className="accent-jacare-500"
+          />
+        </label>
+      </div>
+      <p className="text-[11px] text-gray-500 text-center">
+        {t('trimmer.summary', {
+          start: formatSeconds(bounds.start),
+          end: formatSeconds(bounds.end),
+          length: formatSeconds(bounds.end - bounds.start),
+        })}
+        {clip.duration > MAX_CLIP_SECONDS && t('trimmer.maxLength', { seconds: MAX_CLIP_SECONDS })}
+      </p>
+    </div>
+  );
+};
+
+export default WaveformTrimmer;
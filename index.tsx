@@ -7,6 +7,20 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Makes the production build installable and usable offline (public/sw.js)
+if (process.env.SERVICE_WORKER && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        // Hand over what this visit already loaded, so it opens offline next time
+        const urls = performance.getEntriesByType('resource').map(entry => entry.name);
+        registration.active?.postMessage({ type: 'precache', urls });
+      })
+      .catch(e => console.error("Service worker registration failed", e));
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,109 @@
+// Keeps the app shell, and whatever it loads, cached so JacareFinder opens
+// without a connection. Searches are never answered from here: the app
+// queues them itself while offline (services/searchQueue.ts).
+// Bump CACHE_NAME to drop everything cached by an older worker.
+const CACHE_NAME = 'jacarefinder-v1';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg'];
+// index.html pulls Tailwind and the import map from these
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'aistudiocdn.com'];
+
+// Everything the page links to: scripts, stylesheets, icons and the import
+// map's modules. Prefix entries ("react/") aren't files; their modules are
+// cached when the page reports what it loaded (see the message handler).
+const linkedAssets = (html) => {
+  const urls = [...html.matchAll(/<(?:script|link)\b[^>]*?\b(?:src|href)="([^"]+)"/g)].map(([, url]) => url);
+  const importMap = html.match(/<script type="importmap">([\s\S]*?)<\/script>/);
+  try {
+    const imports = importMap ? JSON.parse(importMap[1]).imports : {};
+    urls.push(...Object.values(imports).filter((url) => !url.endsWith('/')));
+  } catch {
+    // An unreadable import map just means fewer files cached up front
+  }
+  return urls;
+};
+
+// Best effort: one unreachable file shouldn't stop the worker installing.
+// Module scripts need a CORS response; classic CDN scripts may only allow
+// an opaque one.
+const precache = (urls) =>
+  caches.open(CACHE_NAME).then((cache) =>
+    Promise.all(urls.map((url) =>
+      fetch(url)
+        .catch(() => fetch(url, { mode: 'no-cors' }))
+        .then((response) => (response.ok || response.type === 'opaque') && cache.put(url, response))
+        .catch(() => {})
+    ))
+  );
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL).then(() => cache.match('/')))
+      .then((page) => page.text())
+      .then((html) => precache(linkedAssets(html)))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isCacheable = (url) =>
+  (url.origin === self.location.origin && !url.pathname.startsWith('/api/')) || CDN_HOSTS.includes(url.hostname);
+
+const store = (key, response) => {
+  // Opaque responses are CDN scripts loaded without CORS; keep them too
+  if (response.ok || response.type === 'opaque') {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(key, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!isCacheable(url)) return;
+
+  if (request.mode === 'navigate') {
+    // Network first so a new deploy shows up right away. Every route is the
+    // same single page, so the cached "/" stands in for all of them.
+    event.respondWith(
+      fetch(request).then((response) => store('/', response)).catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Stale-while-revalidate: answer from the cache, refresh it behind the scenes
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const fresh = fetch(request).then((response) => store(request, response));
+      if (!cached) return fresh;
+      fresh.catch(() => {});
+      return cached;
+    })
+  );
+});
+
+// The first visit loads everything before this worker exists, so the page
+// sends the list of what it fetched once the worker is ready
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'precache' || !Array.isArray(event.data.urls)) return;
+  event.waitUntil(precache(event.data.urls.filter((url) => /^https?:/.test(url) && isCacheable(new URL(url)))));
+});
+
+// Queued searches notify when their results arrive; a tap brings the app back
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) =>
+      clients.length > 0 ? clients[0].focus() : self.clients.openWindow('/')
+    )
+  );
+});
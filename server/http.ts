@@ -0,0 +1,64 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { ErrorCode } from '../types';
+
+// code, when set, is sent along so the client can tell failures apart
+// without parsing the message (see services/appErrors.ts).
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public code?: ErrorCode) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Reads and parses a JSON body, bailing out with 413 as soon as the stream
+// passes maxBytes so oversized uploads are never fully buffered.
+export const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const declared = Number(req.headers['content-length']);
+  if (declared > maxBytes) {
+    return Promise.reject(new HttpError(413, 'Request is too large.', 'payload_too_large'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Stop reading but leave the socket open so the 413 can still be
+        // sent; the caller closes the connection with it.
+        req.off('data', onData);
+        req.pause();
+        reject(new HttpError(413, 'Request is too large.', 'payload_too_large'));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+
+    req.on('end', () => {
+      if (size > maxBytes) return;
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body must be valid JSON.', 'invalid_request'));
+      }
+    });
+
+    req.on('error', reject);
+  });
+};
+
+export const getClientKey = (req: IncomingMessage, trustProxy: boolean) => {
+  if (trustProxy) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
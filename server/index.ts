@@ -0,0 +1,243 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { createGeminiProvider } from '../services/geminiService';
+import { CandidateRef, MAX_REFINEMENTS, RefinementTurn, SearchQuery } from '../services/searchProvider';
+import { canonicalMimeType } from '../services/audioFiles';
+import { isLocale } from '../services/i18n';
+import { sanitizeGeneration } from '../services/searchSettings';
+import { toAppError } from '../services/appErrors';
+import { ErrorCode } from '../types';
+import { createRateLimiter } from './rateLimiter';
+import { HttpError, getClientKey, readJsonBody, sendJson } from './http';
+
+// Pick up GEMINI_API_KEY from the same file Vite uses in development. In
+// production the variables usually come from the real environment instead.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on process.env.
+}
+
+const PORT = Number(process.env.PORT) || 3001;
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES) || 8 * 1024 * 1024;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_CANDIDATES_PER_TURN = 20;
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+const STATIC_DIR = path.resolve('dist');
+
+const STATIC_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.webmanifest': 'application/manifest+json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+};
+
+if (!process.env.GEMINI_API_KEY) {
+  console.warn('GEMINI_API_KEY is not set; /api/search will fail until it is.');
+}
+
+const provider = createGeminiProvider(process.env.GEMINI_API_KEY);
+
+const limiter = createRateLimiter({
+  windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000,
+  max: Number(process.env.RATE_LIMIT_MAX) || 10,
+});
+
+const STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+  api_key: 500,
+  quota: 429,
+  payload_too_large: 413,
+  safety_block: 422,
+  malformed_response: 502,
+  unavailable: 503,
+};
+
+const parseCandidate = (value: unknown): CandidateRef => {
+  const { titulo, artista, rejected } = (value ?? {}) as Record<string, unknown>;
+  if (typeof titulo !== 'string' || typeof artista !== 'string' || titulo.length > 200 || artista.length > 200) {
+    throw new HttpError(400, 'Each refinement candidate needs a "titulo" and "artista" string.', 'invalid_request');
+  }
+  return { titulo, artista, rejected: rejected === true };
+};
+
+const parseRefinements = (value: unknown): RefinementTurn[] | undefined => {
+  if (value == null) return undefined;
+  if (!Array.isArray(value) || value.length > MAX_REFINEMENTS) {
+    throw new HttpError(400, `"refinements" must be an array of at most ${MAX_REFINEMENTS} turns.`, 'invalid_request');
+  }
+  return value.map((turn): RefinementTurn => {
+    const { candidates, feedback } = (turn ?? {}) as Record<string, unknown>;
+    if (typeof feedback !== 'string') {
+      throw new HttpError(400, 'Each refinement needs a "feedback" string.', 'invalid_request');
+    }
+    if (feedback.length > MAX_TEXT_LENGTH) {
+      throw new HttpError(400, `Refinement feedback is too long (max ${MAX_TEXT_LENGTH} characters).`, 'text_too_long');
+    }
+    if (!Array.isArray(candidates) || candidates.length > MAX_CANDIDATES_PER_TURN) {
+      throw new HttpError(400, `Each refinement needs a "candidates" array of at most ${MAX_CANDIDATES_PER_TURN} songs.`, 'invalid_request');
+    }
+    return { feedback, candidates: candidates.map(parseCandidate) };
+  });
+};
+
+const parseQuery = (body: unknown): SearchQuery => {
+  if (!body || typeof body !== 'object') {
+    throw new HttpError(400, 'Request body must be a JSON object.', 'invalid_request');
+  }
+
+  const { text, audioBase64, mimeType, refinements, locale } = body as {
+    text: unknown;
+    audioBase64?: unknown;
+    mimeType?: unknown;
+    refinements?: unknown;
+    locale?: unknown;
+  };
+
+  if (typeof text !== 'string') {
+    throw new HttpError(400, '"text" must be a string.', 'invalid_request');
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(400, `Description is too long (max ${MAX_TEXT_LENGTH} characters).`, 'text_too_long');
+  }
+  if (audioBase64 != null && typeof audioBase64 !== 'string') {
+    throw new HttpError(400, '"audioBase64" must be a string or null.', 'invalid_request');
+  }
+  if (!text.trim() && !audioBase64) {
+    throw new HttpError(400, 'Describe a song or send audio to search.', 'missing_input');
+  }
+
+  let audioType: string | null = null;
+  if (audioBase64) {
+    audioType = typeof mimeType === 'string' ? canonicalMimeType(mimeType) : null;
+    if (!audioType) {
+      throw new HttpError(415, 'Unsupported or missing audio "mimeType". Use mp3, m4a, wav, ogg or webm.', 'unsupported_audio');
+    }
+  }
+
+  return {
+    text,
+    audioBase64: (audioBase64 as string | null | undefined) || null,
+    mimeType: audioType,
+    refinements: parseRefinements(refinements),
+    // Unknown languages fall back to English rather than failing the search
+    locale: isLocale(locale) ? locale : undefined,
+  };
+};
+
+const handleSearch = async (req: IncomingMessage, res: ServerResponse) => {
+  const limit = limiter.check(getClientKey(req, TRUST_PROXY));
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+    sendJson(
+      res,
+      429,
+      { error: `Too many searches. Try again in ${retryAfter}s.`, code: 'quota', retryAfterMs: limit.retryAfterMs },
+      { 'Retry-After': String(retryAfter) }
+    );
+    return;
+  }
+
+  const body = await readJsonBody(req, MAX_BODY_BYTES);
+  const query = parseQuery(body);
+  // Out-of-range values and unknown models are replaced, not rejected
+  const { generation } = body as { generation?: unknown };
+  const options = { generation: generation == null ? undefined : sanitizeGeneration(generation) };
+
+  // Stop paying for the model call as soon as the browser gives up on it.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  // Headers wait for the first song so early failures still get a real
+  // status code; after that, errors are reported in-band.
+  let started = false;
+  const writeLine = (message: object) => {
+    if (!started) {
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+      started = true;
+    }
+    res.write(JSON.stringify(message) + '\n');
+  };
+
+  try {
+    for await (const song of provider.searchMusic(query, { ...options, signal: controller.signal })) {
+      writeLine({ song });
+    }
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    const { code, message } = toAppError(error);
+    if (!started) throw new HttpError(STATUS_BY_CODE[code] ?? 502, message, code);
+    writeLine({ error: message, code });
+  }
+
+  if (!started) {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+  }
+  res.end();
+};
+
+const serveStatic = async (req: IncomingMessage, res: ServerResponse) => {
+  let urlPath: string;
+  try {
+    urlPath = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+  } catch {
+    // Broken percent-encoding, e.g. "/%E0%A4%A"
+    throw new HttpError(400, 'Malformed URL.', 'invalid_request');
+  }
+  const filePath = path.join(STATIC_DIR, urlPath);
+
+  // Refuse anything that escapes dist/ (e.g. "/../.env.local").
+  if (!filePath.startsWith(STATIC_DIR + path.sep)) {
+    throw new HttpError(404, 'Not found.');
+  }
+
+  const tryRead = (file: string) => readFile(file).then(data => ({ file, data }), () => null);
+  // Unknown paths fall back to index.html so client-side navigation works.
+  const found = (path.extname(filePath) && await tryRead(filePath)) || await tryRead(path.join(STATIC_DIR, 'index.html'));
+  if (!found) {
+    throw new HttpError(404, 'Not found. Run `npm run build` to serve the app from this server.');
+  }
+
+  res.writeHead(200, { 'Content-Type': STATIC_TYPES[path.extname(found.file)] || 'application/octet-stream' });
+  res.end(found.data);
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname === '/api/search') {
+      if (req.method !== 'POST') {
+        throw new HttpError(405, 'Use POST for /api/search.', 'invalid_request');
+      }
+      await handleSearch(req, res);
+    } else if (req.method === 'GET') {
+      await serveStatic(req, res);
+    } else {
+      throw new HttpError(404, 'Not found.');
+    }
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    if (error instanceof HttpError) {
+      // The rest of an oversized body is never read, so don't keep the
+      // connection around waiting for it
+      const headers: Record<string, string> = error.status === 413 ? { Connection: 'close' } : {};
+      sendJson(res, error.status, { error: error.message, code: error.code }, headers);
+    } else {
+      console.error('Unhandled server error:', error);
+      sendJson(res, 500, { error: 'Internal server error.' });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`JacareFinder API listening on http://localhost:${PORT}`);
+});
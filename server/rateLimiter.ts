@@ -0,0 +1,41 @@
+interface RateLimiterOptions {
+  windowMs: number;
+  max: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+// Fixed-window counter per client key. Good enough for a single process; a
+// multi-instance deploy would need a shared store instead.
+export const createRateLimiter = ({ windowMs, max }: RateLimiterOptions) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const prune = (now: number) => {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  };
+
+  return {
+    check(key: string, now: number = Date.now()): RateLimitResult {
+      prune(now);
+
+      let window = windows.get(key);
+      if (!window) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      if (window.count >= max) {
+        return { allowed: false, remaining: 0, retryAfterMs: window.resetAt - now };
+      }
+
+      window.count++;
+      return { allowed: true, remaining: max - window.count, retryAfterMs: 0 };
+    },
+  };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createApiProvider } from './apiProvider';
+import { AppError } from './appErrors';
+
+const respond = (status: number, body: object) =>
+  vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify(body), { status }));
+
+const failure = async () => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  try {
+    const songs = [];
+    for await (const song of createApiProvider().searchMusic({ text: 'piano', audioBase64: null, mimeType: null })) songs.push(song);
+  } catch (error) {
+    return error as AppError;
+  }
+  throw new Error('expected the search to fail');
+};
+
+describe('api provider errors', () => {
+  it.each([
+    ['text_too_long', 400],
+    ['unsupported_audio', 415],
+    ['payload_too_large', 413],
+  ])('keeps the server code %s', async (code, status) => {
+    respond(status, { error: 'rejected', code });
+    expect((await failure()).code).toBe(code);
+  });
+
+  it('treats an uncoded 4xx as an invalid request that retrying won\'t fix', async () => {
+    respond(400, { error: 'Request body must be a JSON object.' });
+    const error = await failure();
+    expect(error.code).toBe('invalid_request');
+    expect(error.transient).toBe(false);
+  });
+
+  it('still treats an uncoded 5xx as the server being unavailable', async () => {
+    respond(502, {});
+    expect((await failure()).code).toBe('unavailable');
+  });
+});
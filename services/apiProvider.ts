@@ -0,0 +1,107 @@
+import { Song } from "../types";
+import { MusicSearchProvider, SearchOptions, SearchQuery } from "./searchProvider";
+import { createSongNormalizer } from "./songValidation";
+import { AppError, isErrorCode } from "./appErrors";
+
+// The server answers with newline-delimited JSON: one {"song": ...} per
+// line, or a final {"error": ..., "code": ...} if the search fails midway.
+async function* readLines(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        // The connection dropped partway through the answer
+        if (signal?.aborted) throw error;
+        throw new AppError('offline');
+      }
+      const { done, value } = chunk;
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield line;
+      }
+    }
+    if (buffer.trim()) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Prefers the server's own code; proxies in between only give a status
+const errorFromResponse = (response: Response, payload: { code?: unknown; retryAfterMs?: unknown } | null) => {
+  const retryAfterHeader = Number(response.headers.get('Retry-After'));
+  const retryAfterMs = typeof payload?.retryAfterMs === 'number'
+    ? payload.retryAfterMs
+    : retryAfterHeader > 0 ? retryAfterHeader * 1000 : undefined;
+  if (isErrorCode(payload?.code)) return new AppError(payload.code, retryAfterMs);
+  if (response.status === 413) return new AppError('payload_too_large');
+  if (response.status === 429) return new AppError('quota', retryAfterMs);
+  if (response.status >= 500) return new AppError('unavailable');
+  // Any other 4xx is about the request itself, so retrying can't help
+  if (response.status >= 400) return new AppError('invalid_request');
+  return new AppError('unknown');
+};
+
+// Talks to the JacareFinder server (server/index.ts), which holds the Gemini
+// key and makes the model call on our behalf.
+export const createApiProvider = (endpoint: string = '/api/search'): MusicSearchProvider => ({
+  name: 'api',
+  async *searchMusic(query: SearchQuery, { signal, generation }: SearchOptions = {}): AsyncGenerator<Song> {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      throw new AppError('offline');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          text: query.text,
+          audioBase64: query.audioBase64,
+          mimeType: query.mimeType,
+          refinements: query.refinements,
+          locale: query.locale,
+          generation,
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Search API Error:", error);
+      throw new AppError('offline');
+    }
+
+    if (!response.ok || !response.body) {
+      const payload = await response.json().catch(() => null);
+      if (payload?.error) console.error("Search API Error:", payload.error);
+      throw errorFromResponse(response, payload);
+    }
+
+    // The server already normalizes, but don't trust the wire blindly.
+    const normalizer = createSongNormalizer();
+    for await (const line of readLines(response.body, signal)) {
+      let message: { song?: unknown; error?: string; code?: unknown };
+      try {
+        message = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (message.error) {
+        console.error("Search API Error:", message.error);
+        throw new AppError(isErrorCode(message.code) ? message.code : 'unknown');
+      }
+      const song = normalizer.push(message.song);
+      if (song) yield song;
+    }
+    normalizer.finish();
+  },
+});
@@ -0,0 +1,80 @@
+import { ErrorCode, ErrorInfo } from "../types";
+import { LocalizedError, MessageKey } from "./i18n";
+
+// What the UI offers next to each error
+export type RecoveryAction = 'retry' | 'edit_text' | 'discard_audio' | 'upload_audio';
+
+const ERROR_MESSAGES: Record<ErrorCode, MessageKey> = {
+  missing_input: 'search.missingInput',
+  api_key: 'error.apiKey',
+  quota: 'error.quota',
+  offline: 'error.offline',
+  payload_too_large: 'error.payloadTooLarge',
+  text_too_long: 'error.textTooLong',
+  unsupported_audio: 'error.unsupportedAudio',
+  invalid_request: 'error.invalidRequest',
+  safety_block: 'error.safetyBlock',
+  malformed_response: 'error.malformedResponse',
+  unavailable: 'error.unavailable',
+  microphone_denied: 'error.microphoneDenied',
+  microphone_unavailable: 'error.microphoneUnavailable',
+  unknown: 'search.unexpectedError',
+};
+
+export const RECOVERY: Record<ErrorCode, RecoveryAction | null> = {
+  missing_input: 'edit_text',
+  api_key: null,
+  quota: 'retry',
+  offline: 'retry',
+  payload_too_large: 'discard_audio',
+  text_too_long: 'edit_text',
+  unsupported_audio: 'discard_audio',
+  // The app sent something the server won't take; trying again won't help
+  invalid_request: null,
+  safety_block: 'edit_text',
+  malformed_response: 'retry',
+  unavailable: 'retry',
+  microphone_denied: 'upload_audio',
+  microphone_unavailable: 'upload_audio',
+  unknown: 'retry',
+};
+
+// Worth trying again on their own, without the user changing anything
+const TRANSIENT = new Set<ErrorCode>(['quota', 'offline', 'malformed_response', 'unavailable']);
+
+const ERROR_CODES = Object.keys(ERROR_MESSAGES) as ErrorCode[];
+
+export const isErrorCode = (value: unknown): value is ErrorCode =>
+  typeof value === 'string' && (ERROR_CODES as string[]).includes(value);
+
+export const errorMessageKey = (code: ErrorCode) => ERROR_MESSAGES[code];
+
+export class AppError extends LocalizedError {
+  // Filled in by withRetries when it gives up
+  attempts = 1;
+
+  constructor(public code: ErrorCode, public retryAfterMs?: number) {
+    super(ERROR_MESSAGES[code]);
+    this.name = 'AppError';
+  }
+
+  get transient() {
+    return TRANSIENT.has(this.code);
+  }
+}
+
+/** Anything thrown during a search, as an AppError; unknown failures become 'unknown'. */
+export const toAppError = (error: unknown): AppError =>
+  error instanceof AppError ? error : new AppError('unknown');
+
+export const toErrorInfo = (error: unknown): ErrorInfo => {
+  const { code, retryAfterMs, attempts } = toAppError(error);
+  return { code, retryAfterMs, attempts };
+};
+
+/** Maps a getUserMedia/MediaRecorder failure to what the user can do about it. */
+export const microphoneError = (error: unknown): AppError => {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  // Blocked by the user, the browser or a permissions policy
+  return new AppError(name === 'NotAllowedError' || name === 'SecurityError' ? 'microphone_denied' : 'microphone_unavailable');
+};
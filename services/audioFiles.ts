@@ -0,0 +1,94 @@
+import { LocalizedError, MessageKey, MessageParams } from "./i18n";
+
+// Uploaded clips go to the model base64-encoded inside a JSON body, which
+// inflates them by a third; 6 MB keeps us under the server's 8 MB limit.
+export const MAX_AUDIO_BYTES = 6 * 1024 * 1024;
+export const MAX_AUDIO_SECONDS = 60;
+
+// Browsers disagree on names for the same format (and often report nothing
+// for .m4a), so map both MIME types and extensions onto one canonical type.
+const CANONICAL_TYPES: Record<string, string> = {
+  'audio/mpeg': 'audio/mp3',
+  'audio/mp3': 'audio/mp3',
+  'audio/mp4': 'audio/mp4',
+  'audio/x-m4a': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+  'audio/aac': 'audio/aac',
+  'audio/wav': 'audio/wav',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/ogg': 'audio/ogg',
+  'audio/webm': 'audio/webm',
+  'video/webm': 'audio/webm',
+};
+
+const EXTENSION_TYPES: Record<string, string> = {
+  mp3: 'audio/mp3',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  webm: 'audio/webm',
+};
+
+export const ACCEPTED_AUDIO = [...Object.keys(CANONICAL_TYPES), ...Object.keys(EXTENSION_TYPES).map(ext => `.${ext}`)].join(',');
+
+export class AudioFileError extends LocalizedError {
+  constructor(messageKey: MessageKey, params?: MessageParams) {
+    super(messageKey, params);
+    this.name = 'AudioFileError';
+  }
+}
+
+/**
+ * Normalizes a MIME type such as MediaRecorder's "audio/webm;codecs=opus"
+ * into one the model accepts. Returns null for unsupported formats.
+ */
+export const canonicalMimeType = (mimeType: string, fileName: string = ''): string | null => {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  if (CANONICAL_TYPES[base]) return CANONICAL_TYPES[base];
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_TYPES[extension] ?? null;
+};
+
+const readDuration = (file: File): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const cleanup = () => URL.revokeObjectURL(url);
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => {
+      cleanup();
+      resolve(audio.duration);
+    };
+    audio.onerror = () => {
+      cleanup();
+      reject(new AudioFileError('audioFile.unplayable'));
+    };
+    audio.src = url;
+  });
+
+/**
+ * Checks an uploaded file before it is encoded and sent. Resolves with the
+ * MIME type to send alongside it.
+ */
+export const validateAudioFile = async (file: File): Promise<{ mimeType: string; duration: number }> => {
+  const mimeType = canonicalMimeType(file.type, file.name);
+  if (!mimeType) {
+    throw new AudioFileError('audioFile.unsupported');
+  }
+  if (file.size > MAX_AUDIO_BYTES) {
+    throw new AudioFileError('audioFile.tooLarge', { megabytes: MAX_AUDIO_BYTES / 1024 / 1024 });
+  }
+
+  const duration = await readDuration(file);
+  // Some containers (notably MediaRecorder webm) report Infinity until fully
+  // read; the size check above already bounds those.
+  if (Number.isFinite(duration) && duration > MAX_AUDIO_SECONDS) {
+    throw new AudioFileError('audioFile.tooLong', { seconds: MAX_AUDIO_SECONDS });
+  }
+
+  return { mimeType, duration };
+};
@@ -0,0 +1,138 @@
+// Speech/melody models don't need more than this, and mono 16 kHz 16-bit
+// WAV is ~32 KB per second, a fraction of a raw recording.
+export const TARGET_SAMPLE_RATE = 16000;
+export const MAX_CLIP_SECONDS = 30;
+
+// Frames quieter than this count as silence when trimming.
+const SILENCE_THRESHOLD_DB = -45;
+const FRAME_SECONDS = 0.02;
+// Keep a little room around detected sound so note onsets aren't clipped.
+const PADDING_SECONDS = 0.15;
+const TARGET_RMS_DB = -20;
+const PEAK_CEILING = 0.98;
+
+export interface PreparedClip {
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number;
+}
+
+export interface ClipBounds {
+  start: number;
+  end: number;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+const rms = (samples: Float32Array, from: number = 0, to: number = samples.length) => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return to > from ? Math.sqrt(sum / (to - from)) : 0;
+};
+
+/**
+ * Decodes any format the browser can play and renders it as mono audio at
+ * TARGET_SAMPLE_RATE. OfflineAudioContext does the downmix and resampling.
+ */
+export const prepareClip = async (blob: Blob): Promise<PreparedClip> => {
+  const data = await blob.arrayBuffer();
+  // decodeAudioData needs a context but not a running one; the offline
+  // context is just a cheap way to get it without a user gesture.
+  const decoder = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+  const decoded = await decoder.decodeAudioData(data);
+
+  const length = Math.ceil(decoded.duration * TARGET_SAMPLE_RATE);
+  const offline = new OfflineAudioContext(1, Math.max(1, length), TARGET_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+
+  const samples = rendered.getChannelData(0);
+  return { samples, sampleRate: TARGET_SAMPLE_RATE, duration: samples.length / TARGET_SAMPLE_RATE };
+};
+
+/**
+ * Where the sound starts and ends, ignoring leading and trailing silence,
+ * capped at MAX_CLIP_SECONDS. Falls back to the whole clip if it is silent
+ * throughout so the user can still decide.
+ */
+export const findSoundBounds = ({ samples, sampleRate, duration }: PreparedClip): ClipBounds => {
+  const frameSize = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const threshold = dbToGain(SILENCE_THRESHOLD_DB);
+
+  let first = -1;
+  let last = -1;
+  for (let frame = 0; frame * frameSize < samples.length; frame++) {
+    const from = frame * frameSize;
+    if (rms(samples, from, Math.min(samples.length, from + frameSize)) >= threshold) {
+      if (first < 0) first = frame;
+      last = frame;
+    }
+  }
+
+  if (first < 0) {
+    return { start: 0, end: Math.min(duration, MAX_CLIP_SECONDS) };
+  }
+
+  const start = Math.max(0, (first * frameSize) / sampleRate - PADDING_SECONDS);
+  const end = Math.min(duration, ((last + 1) * frameSize) / sampleRate + PADDING_SECONDS);
+  return { start, end: Math.min(end, start + MAX_CLIP_SECONDS) };
+};
+
+/**
+ * Brings quiet hums and loud recordings to a similar level: scales towards
+ * TARGET_RMS_DB, but never so far that peaks would clip.
+ */
+export const normalizeLoudness = (samples: Float32Array): Float32Array => {
+  const level = rms(samples);
+  if (level === 0) return samples;
+
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+
+  const gain = Math.min(dbToGain(TARGET_RMS_DB) / level, PEAK_CEILING / peak);
+  return samples.map(s => s * gain);
+};
+
+// 16-bit PCM WAV. Every model and browser reads it, and at 16 kHz mono it's
+// small enough that a compressed codec isn't worth the extra machinery.
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Cuts the clip to the given bounds (never longer than MAX_CLIP_SECONDS),
+ * normalizes it and encodes it as WAV, ready to send.
+ */
+export const renderClip = ({ samples, sampleRate }: PreparedClip, { start, end }: ClipBounds): Blob => {
+  const from = Math.max(0, Math.floor(start * sampleRate));
+  const to = Math.min(samples.length, Math.ceil(Math.min(end, start + MAX_CLIP_SECONDS) * sampleRate));
+  return encodeWav(normalizeLoudness(samples.slice(from, Math.max(from, to))), sampleRate);
+};
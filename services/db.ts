@@ -0,0 +1,48 @@
+// Shared IndexedDB handle. Bump DB_VERSION and extend upgrade() when adding
+// a store; never change an existing store in place.
+const DB_NAME = 'jacarefinder';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'history';
+export const QUEUE_STORE = 'searchQueue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    history.createIndex('timestamp', 'timestamp');
+  }
+  if (oldVersion < 2) {
+    const queue = db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+    queue.createIndex('queuedAt', 'queuedAt');
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Library } from '../types';
+import { LIBRARY_VERSION, emptyLibrary, loadLibrary, saveLibrary } from './favoritesStorage';
+import { songId } from './songIdentity';
+
+const STORAGE_KEY = 'jacareFavorites';
+const BACKUP_KEY = 'jacareFavorites.backup';
+
+const time = {
+  id: songId('Time', 'Hans Zimmer'),
+  titulo: 'Time',
+  artista: 'Hans Zimmer',
+  matchType: 'Contexto' as const,
+  confidence: 92,
+  description: 'Inception ending',
+};
+
+describe('favorites storage', () => {
+  it('starts empty', () => {
+    expect(loadLibrary()).toEqual(emptyLibrary());
+  });
+
+  it('reads back what it saved', () => {
+    const library: Library = {
+      entries: [{ song: time, addedAt: 1700000000000, tags: ['film'], notes: 'from the cinema' }],
+      playlists: [{ id: 'p1', name: 'Scores', songIds: [time.id], createdAt: 1700000000000 }],
+    };
+    saveLibrary(library);
+
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!).version).toBe(LIBRARY_VERSION);
+    expect(loadLibrary()).toEqual(library);
+  });
+
+  it('migrates the old bare song list and keeps a backup', () => {
+    const legacy = JSON.stringify([{ titulo: 'Time', artista: 'Hans Zimmer', matchType: 'Contexto', confidence: 92 }]);
+    localStorage.setItem(STORAGE_KEY, legacy);
+
+    const library = loadLibrary();
+
+    expect(library.entries.map(entry => entry.song.id)).toEqual([time.id]);
+    expect(library.playlists).toEqual([]);
+    expect(localStorage.getItem(BACKUP_KEY)).toBe(legacy);
+  });
+
+  it('moves playlists along when a stored id no longer matches the song', () => {
+    const lift = { id: 'song:li--rihanna', titulo: 'Lift Me Up', artista: 'Rihanna', matchType: 'Texto', confidence: 80 };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      version: LIBRARY_VERSION,
+      entries: [{ song: lift, addedAt: 1, tags: [], notes: '' }],
+      playlists: [{ id: 'p1', name: 'Ballads', songIds: ['song:li--rihanna'], createdAt: 1 }],
+    }));
+
+    const library = loadLibrary();
+
+    expect(library.entries[0].song.id).toBe('song:lift-me-up--rihanna');
+    expect(library.playlists[0].songIds).toEqual(['song:lift-me-up--rihanna']);
+  });
+
+  it('backs up unreadable data instead of losing it', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem(STORAGE_KEY, '{not json');
+
+    expect(loadLibrary()).toEqual(emptyLibrary());
+    expect(localStorage.getItem(BACKUP_KEY)).toBe('{not json');
+  });
+});
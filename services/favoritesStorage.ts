@@ -0,0 +1,118 @@
+import { Library, LibraryEntry, Playlist } from "../types";
+import { repairSong, validateSongs } from "./songValidation";
+
+const STORAGE_KEY = 'jacareFavorites';
+// Whatever we couldn't read as-is is copied here before being overwritten.
+const BACKUP_KEY = 'jacareFavorites.backup';
+
+export const LIBRARY_VERSION = 2;
+
+interface StoredLibrary extends Library {
+  version: number;
+}
+
+export const emptyLibrary = (): Library => ({ entries: [], playlists: [] });
+
+const readStringArray = (value: unknown) =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+// renamed collects stored ids that no longer match the song's id (the id
+// rules changed), so playlists can follow them.
+const readEntries = (value: unknown, now: number, renamed: Map<string, string>): LibraryEntry[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const entries: LibraryEntry[] = [];
+  for (const raw of value) {
+    const record = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const song = repairSong(record.song);
+    if (!song) continue;
+    const storedId = (record.song as { id?: unknown }).id;
+    if (typeof storedId === 'string' && storedId !== song.id) renamed.set(storedId, song.id);
+    if (seen.has(song.id)) continue;
+    seen.add(song.id);
+    entries.push({
+      song,
+      addedAt: typeof record.addedAt === 'number' ? record.addedAt : now,
+      tags: readStringArray(record.tags),
+      notes: typeof record.notes === 'string' ? record.notes : '',
+    });
+  }
+  return entries;
+};
+
+const readPlaylists = (value: unknown, now: number, renamed: Map<string, string>): Playlist[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((raw): raw is Record<string, unknown> => !!raw && typeof raw === 'object' && typeof raw.id === 'string')
+    .map(raw => ({
+      id: raw.id as string,
+      name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : 'Untitled playlist',
+      songIds: [...new Set(readStringArray(raw.songIds).map(id => renamed.get(id) ?? id))],
+      createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : now,
+    }));
+};
+
+/**
+ * Reads any stored format into the current Library shape.
+ *
+ * - v1 (a bare Song[]): songs get stable ids (see songIdentity.ts) and become
+ *   entries with no tags, notes or playlists. Their add date is unknown, so
+ *   it is set to the migration time.
+ * - v2: the current envelope, read field by field so one bad entry doesn't
+ *   cost the rest.
+ *
+ * Versions newer than this build are read as v2 on a best-effort basis;
+ * the caller backs up the original first.
+ */
+export const migrateLibrary = (raw: unknown, now: number = Date.now()): Library => {
+  if (Array.isArray(raw)) {
+    if (raw.length === 0) return emptyLibrary();
+    try {
+      const songs = validateSongs(raw).songs;
+      return { entries: songs.map(song => ({ song, addedAt: now, tags: [], notes: '' })), playlists: [] };
+    } catch (e) {
+      console.error("Discarding unreadable favorites", e);
+      return emptyLibrary();
+    }
+  }
+
+  if (raw && typeof raw === 'object') {
+    const stored = raw as Partial<StoredLibrary>;
+    const renamed = new Map<string, string>();
+    const entries = readEntries(stored.entries, now, renamed);
+    return { entries, playlists: readPlaylists(stored.playlists, now, renamed) };
+  }
+
+  return emptyLibrary();
+};
+
+const storedVersion = (raw: unknown) =>
+  Array.isArray(raw) ? 1 : typeof (raw as StoredLibrary | null)?.version === 'number' ? (raw as StoredLibrary).version : 0;
+
+export const loadLibrary = (): Library => {
+  let saved: string | null = null;
+  try {
+    saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return emptyLibrary();
+
+    const raw = JSON.parse(saved);
+    if (storedVersion(raw) !== LIBRARY_VERSION) {
+      localStorage.setItem(BACKUP_KEY, saved);
+    }
+    return migrateLibrary(raw);
+  } catch (e) {
+    console.error("Failed to load favorites", e);
+    if (saved) localStorage.setItem(BACKUP_KEY, saved);
+    return emptyLibrary();
+  }
+};
+
+// The stored format is also our lossless JSON export.
+export const serializeLibrary = (library: Library) => {
+  const stored: StoredLibrary = { version: LIBRARY_VERSION, ...library };
+  return JSON.stringify(stored);
+};
+
+export const saveLibrary = (library: Library) => {
+  localStorage.setItem(STORAGE_KEY, serializeLibrary(library));
+};
@@ -0,0 +1,23 @@
+import { MOCK_CATALOG, CatalogEntry } from "./fixtures/mockCatalog";
+import { MetadataResolver, SongMetadata } from "./metadataResolver";
+import { songId } from "./songIdentity";
+
+// Resolves songs from the fixture catalog; anything else is "unverified".
+export const createFixtureResolver = (catalog: CatalogEntry[] = MOCK_CATALOG): MetadataResolver => {
+  const byId = new Map(catalog.map(entry => [songId(entry.titulo, entry.artista), entry]));
+
+  return {
+    name: 'fixture',
+    resolve: async (song) => {
+      const entry = byId.get(song.id);
+      if (!entry) return null;
+      const metadata: SongMetadata = {
+        album: entry.album,
+        releaseYear: entry.releaseYear,
+        durationMs: entry.durationMs,
+        isrc: entry.isrc,
+      };
+      return metadata;
+    },
+  };
+};
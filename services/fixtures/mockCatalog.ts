@@ -0,0 +1,113 @@
+import { SongEvidence } from "../../types";
+
+// Fixture catalog for the offline mock provider and resolver. Keywords are
+// matched against the lowercased search text, so keep them lowercase.
+export interface CatalogEntry {
+  titulo: string;
+  artista: string;
+  keywords: string[];
+  description: string;
+  evidence?: SongEvidence;
+  album?: string;
+  releaseYear?: number;
+  durationMs?: number;
+  isrc?: string;
+}
+
+export const MOCK_CATALOG: CatalogEntry[] = [
+  {
+    titulo: 'Time',
+    artista: 'Hans Zimmer',
+    keywords: ['inception', 'piano', 'sad', 'movie', 'ending', 'soundtrack', 'dream'],
+    description: 'Closing theme from Inception, built on a slow repeating piano and string figure.',
+    evidence: {
+      scene: 'Inception (2010), final scene',
+      melodicFeatures: ['Slow four-chord progression', 'Builds from solo piano to full strings'],
+    },
+    album: 'Inception (Music from the Motion Picture)',
+    releaseYear: 2010,
+    durationMs: 275000
+  },
+  {
+    titulo: 'Clubbed to Death',
+    artista: 'Rob Dougan',
+    keywords: ['matrix', 'sad', 'piano', 'movie', 'strings', 'breakbeat'],
+    description: 'Used in The Matrix during the Woman in the Red Dress scene.',
+    evidence: {
+      scene: 'The Matrix (1999), the "Woman in the Red Dress" training program',
+      melodicFeatures: ['Mournful string melody over a breakbeat'],
+    },
+    album: 'Furious Angels',
+    releaseYear: 2002,
+    durationMs: 450000
+  },
+  {
+    titulo: 'Shallow',
+    artista: 'Lady Gaga & Bradley Cooper',
+    keywords: ['deep', 'end', 'falling', 'shallow', 'movie', 'duet', 'star'],
+    description: "From A Star Is Born; the chorus is about diving in the deep end.",
+    evidence: {
+      lyricFragments: ["I'm off the deep end, watch as I dive in"],
+      scene: 'A Star Is Born (2018), first duet on stage',
+    },
+    album: 'A Star Is Born Soundtrack',
+    releaseYear: 2018,
+    durationMs: 216000
+  },
+  {
+    titulo: 'Garota de Ipanema',
+    artista: 'Tom Jobim',
+    keywords: ['bossa', 'nova', 'brazil', 'ipanema', 'beach', 'girl', 'rio'],
+    description: 'Bossa nova standard about a girl walking to the beach in Ipanema.',
+    album: 'Getz/Gilberto',
+    releaseYear: 1964,
+    durationMs: 324000
+  },
+  {
+    titulo: 'Águas de Março',
+    artista: 'Elis Regina & Tom Jobim',
+    keywords: ['bossa', 'nova', 'rain', 'march', 'duet', 'brazil', 'water'],
+    description: 'Duet listing images of the end of summer in Rio, sung back and forth.',
+    album: 'Elis & Tom',
+    releaseYear: 1974,
+    durationMs: 213000
+  },
+  {
+    titulo: 'Bohemian Rhapsody',
+    artista: 'Queen',
+    keywords: ['opera', 'rock', 'galileo', 'mama', 'wayne', 'car', 'headbang'],
+    description: "Multi-part rock epic, famously head-banged to in Wayne's World.",
+    evidence: {
+      lyricFragments: ['Mama, just killed a man', 'Galileo'],
+      scene: "Wayne's World (1992), headbanging in the car",
+    },
+    album: 'A Night at the Opera',
+    releaseYear: 1975,
+    durationMs: 355000
+  },
+  {
+    titulo: 'Take On Me',
+    artista: 'a-ha',
+    keywords: ['80s', 'synth', 'falsetto', 'cartoon', 'sketch', 'video', 'high'],
+    description: 'Synth-pop hit with a pencil-sketch music video and a very high chorus note.',
+    evidence: {
+      melodicFeatures: ['Bright synth riff', 'Falsetto leap at the end of the chorus'],
+    },
+    album: 'Hunting High and Low',
+    releaseYear: 1985,
+    durationMs: 225000
+  },
+  {
+    titulo: 'My Heart Will Go On',
+    artista: 'Céline Dion',
+    keywords: ['titanic', 'ship', 'flute', 'movie', 'love', 'ballad', 'sad'],
+    description: 'Love theme from Titanic, opening on a tin whistle melody.',
+    evidence: {
+      scene: 'Titanic (1997)',
+      melodicFeatures: ['Tin whistle introduction', 'Key change before the last chorus'],
+    },
+    album: 'Let\'s Talk About Love',
+    releaseYear: 1997,
+    durationMs: 280000
+  },
+];
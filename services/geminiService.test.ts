@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ApiError, Part } from '@google/genai';
+import { searchMusic } from './geminiService';
+import { SearchOptions, SearchQuery } from './searchProvider';
+import { AppError } from './appErrors';
+import { MalformedResponseError } from './songValidation';
+import { FakeGoogleGenAI, songsChunk, textChunk } from '../test/fakes/genai';
+
+const SONGS = [
+  { titulo: 'Time', artista: 'Hans Zimmer', matchType: 'Contexto', confidence: 92, description: 'Inception ending' },
+  { titulo: 'Experience', artista: 'Ludovico Einaudi', matchType: 'Melodia', confidence: 61 },
+  { titulo: 'Nuvole Bianche', artista: 'Ludovico Einaudi', matchType: 'Melodia', confidence: 40 },
+];
+
+const query = (overrides: Partial<SearchQuery> = {}): SearchQuery => ({
+  text: '',
+  audioBase64: null,
+  mimeType: null,
+  ...overrides,
+});
+
+const collect = async (ai: FakeGoogleGenAI, q: SearchQuery, options?: SearchOptions) => {
+  const songs = [];
+  for await (const song of searchMusic(ai.asClient(), q, options)) songs.push(song);
+  return songs;
+};
+
+const sentParts = (ai: FakeGoogleGenAI) => (ai.requests[0].contents as { parts: Part[] }).parts;
+
+describe('searchMusic prompt', () => {
+  it('describes a text-only search and sends no audio', async () => {
+    const ai = new FakeGoogleGenAI().respondWith([songsChunk(SONGS)]);
+    await collect(ai, query({ text: 'sad piano song from the end of Inception' }));
+
+    const parts = sentParts(ai);
+    expect(parts).toHaveLength(1);
+    expect(parts[0].text).toContain('Find songs matching this description: "sad piano song from the end of Inception"');
+    expect(ai.requests[0].method).toBe('generateContentStream');
+  });
+
+  it('asks for a melody match and attaches the audio for a hum', async () => {
+    const ai = new FakeGoogleGenAI().respondWith([songsChunk(SONGS)]);
+    await collect(ai, query({ audioBase64: 'aGVsbG8=', mimeType: 'audio/wav' }));
+
+    const parts = sentParts(ai);
+    expect(parts[0].text).toContain('Identify this song based on the hummed or recorded melody');
+    expect(parts[1].inlineData).toEqual({ mimeType: 'audio/wav', data: 'aGVsbG8=' });
+  });
+
+  it('combines the description with the audio when both are given', async () => {
+    const ai = new FakeGoogleGenAI().respondWith([songsChunk(SONGS)]);
+    await collect(ai, query({ text: 'female singer', audioBase64: 'aGVsbG8=', mimeType: 'audio/webm' }));
+
+    const parts = sentParts(ai);
+    expect(parts[0].text).toContain('based on the audio melody provided AND the following user description: "female singer"');
+    expect(parts[1].inlineData?.mimeType).toBe('audio/webm');
+  });
+
+  it('uses the generation settings and the locale', async () => {
+    const ai = new FakeGoogleGenAI().respondWith([songsChunk(SONGS)]);
+    await collect(ai, query({ text: 'bossa nova', locale: 'pt-BR' }), {
+      generation: { model: 'gemini-2.5-pro', temperature: 0.8, maxResults: 2 },
+    });
+
+    const [request] = ai.requests;
+    expect(request.model).toBe('gemini-2.5-pro');
+    expect(request.config?.temperature).toBe(0.8);
+    expect(sentParts(ai)[0].text).toContain('Return at most 2 matches');
+    expect(sentParts(ai)[0].text).toContain('in Brazilian Portuguese');
+    expect(request.config?.systemInstruction).toContain('Brazilian Portuguese');
+  });
+
+  it('continues a chat for refinements, replaying earlier turns', async () => {
+    const ai = new FakeGoogleGenAI().respondWith([songsChunk(SONGS.slice(1))]);
+    await collect(ai, query({
+      text: 'sad piano',
+      refinements: [{
+        candidates: [{ titulo: 'Time', artista: 'Hans Zimmer', rejected: true }],
+        feedback: 'it was on a TV ad',
+      }],
+    }));
+
+    const [request] = ai.requests;
+    expect(request.method).toBe('sendMessageStream');
+    expect(request.history?.map(turn => turn.role)).toEqual(['user', 'model']);
+    expect(request.message).toContain('These are NOT the song I\'m looking for: "Time" by Hans Zimmer.');
+    expect(request.message).toContain('More details: "it was on a TV ad"');
+    // A per-message config replaces the chat's, so it must carry everything
+    expect(request.config?.responseSchema).toBeDefined();
+  });
+});
+
+describe('searchMusic results', () => {
+  it('streams songs split across chunks', async () => {
+    const json = JSON.stringify(SONGS);
+    const ai = new FakeGoogleGenAI().respondWith([textChunk(json.slice(0, 40)), textChunk(json.slice(40))]);
+    const songs = await collect(ai, query({ text: 'piano' }));
+    expect(songs.map(song => song.titulo)).toEqual(['Time', 'Experience', 'Nuvole Bianche']);
+  });
+
+  it('stops at maxResults even when the model returns more', async () => {
+    const ai = new FakeGoogleGenAI().respondWith([songsChunk(SONGS)]);
+    const songs = await collect(ai, query({ text: 'piano' }), {
+      generation: { model: 'gemini-2.5-flash', temperature: 0.4, maxResults: 1 },
+    });
+    expect(songs).toHaveLength(1);
+  });
+
+  it('yields nothing for an empty answer', async () => {
+    const ai = new FakeGoogleGenAI().respondWith([textChunk('[]')]);
+    expect(await collect(ai, query({ text: 'piano' }))).toEqual([]);
+  });
+});
+
+describe('searchMusic errors', () => {
+  const failWith = async (ai: FakeGoogleGenAI, options?: SearchOptions) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      await collect(ai, query({ text: 'piano' }), options);
+    } catch (error) {
+      return error;
+    }
+    throw new Error('expected the search to fail');
+  };
+
+  it.each([
+    ['quota', 429, 'Resource exhausted'],
+    ['api_key', 400, 'API key not valid. Please pass a valid API key.'],
+    ['payload_too_large', 413, 'Request payload size exceeds the limit'],
+    ['unavailable', 503, 'The model is overloaded'],
+  ])('reports %s for an API error %i', async (code, status, message) => {
+    const ai = new FakeGoogleGenAI().respondWith(new ApiError({ status, message }));
+    const error = await failWith(ai);
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).code).toBe(code);
+  });
+
+  it('reports a blocked prompt as a safety block', async () => {
+    const ai = new FakeGoogleGenAI().respondWith([
+      textChunk('', { promptFeedback: { blockReason: 'SAFETY' } } as object),
+    ]);
+    expect(((await failWith(ai)) as AppError).code).toBe('safety_block');
+  });
+
+  it('rejects a response that is not a JSON array', async () => {
+    const ai = new FakeGoogleGenAI().respondWith([textChunk('{"titulo": "Time"}')]);
+    expect(await failWith(ai)).toBeInstanceOf(MalformedResponseError);
+  });
+
+  it('passes an abort through untouched', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const aborted = new DOMException('Aborted', 'AbortError');
+    const ai = new FakeGoogleGenAI().respondWith(aborted);
+    expect(await failWith(ai, { signal: controller.signal })).toBe(aborted);
+  });
+});
@@ -1,16 +1,17 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { ApiError, GoogleGenAI, GenerateContentResponse, GenerateContentConfig, Content, Part, Type, Schema } from "@google/genai";
 import { Song } from "../types";
-
-// Initialize Gemini Client
-// CRITICAL: Ensure process.env.API_KEY is available in your environment.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { MusicSearchProvider, RefinementTurn, SearchOptions, SearchQuery } from "./searchProvider";
+import { createSongNormalizer } from "./songValidation";
+import { createJsonArrayParser } from "./jsonArrayStream";
+import { DEFAULT_LOCALE, LOCALES } from "./i18n";
+import { DEFAULT_GENERATION } from "./searchSettings";
+import { AppError } from "./appErrors";
 
 const SONG_SCHEMA: Schema = {
   type: Type.ARRAY,
   items: {
     type: Type.OBJECT,
     properties: {
-      id: { type: Type.STRING },
       titulo: { type: Type.STRING },
       artista: { type: Type.STRING },
       matchType: { 
@@ -18,20 +19,102 @@ const SONG_SCHEMA: Schema = {
         enum: ['Texto', 'Melodia', 'Contexto'] 
       },
       confidence: { type: Type.NUMBER },
-      description: { type: Type.STRING }
+      description: { type: Type.STRING },
+      evidence: {
+        type: Type.OBJECT,
+        properties: {
+          lyricFragments: { type: Type.ARRAY, items: { type: Type.STRING } },
+          scene: { type: Type.STRING },
+          melodicFeatures: { type: Type.ARRAY, items: { type: Type.STRING } },
+          audioStartSeconds: { type: Type.NUMBER },
+          audioEndSeconds: { type: Type.NUMBER }
+        }
+      }
     },
-    required: ["id", "titulo", "artista", "matchType", "confidence"]
+    required: ["titulo", "artista", "matchType", "confidence"]
   }
 };
 
-export const searchMusic = async (
-  text: string, 
-  audioBase64: string | null,
-  mimeType: string = 'audio/webm'
-): Promise<Song[]> => {
-  
-  const modelName = audioBase64 ? 'gemini-2.5-flash' : 'gemini-2.5-flash';
-  
+// Server-side only: the API key must never reach the browser bundle.
+export const createGeminiProvider = (apiKey: string | undefined): MusicSearchProvider => {
+  // The client is created on first search so the server can boot (and report
+  // a clear error) without a key.
+  let ai: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!ai) {
+      ai = new GoogleGenAI({ apiKey });
+    }
+    return ai;
+  };
+
+  return {
+    name: 'gemini',
+    async *searchMusic(query: SearchQuery, options?: SearchOptions) {
+      if (!apiKey) throw new AppError('api_key');
+      yield* searchMusic(getClient(), query, options);
+    },
+  };
+};
+
+// Finish reasons that mean the output was withheld, not that it ended
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+const isBlocked = ({ promptFeedback, candidates }: GenerateContentResponse) =>
+  Boolean(promptFeedback?.blockReason) || BLOCKED_FINISH_REASONS.has(candidates?.[0]?.finishReason ?? '');
+
+/** Sorts a Gemini SDK failure into something the user can act on. */
+const classifyError = (error: unknown): AppError => {
+  if (error instanceof AppError) return error;
+  if (error instanceof ApiError) {
+    const { status, message } = error;
+    if (status === 401 || status === 403 || (status === 400 && /api key/i.test(message))) return new AppError('api_key');
+    if (status === 413 || (status === 400 && /payload size|too large/i.test(message))) return new AppError('payload_too_large');
+    if (status === 429) return new AppError('quota');
+    if (status >= 500) return new AppError('unavailable');
+  }
+  // fetch itself failed: the server can't reach Google
+  if (error instanceof TypeError && /fetch/i.test(error.message)) return new AppError('unavailable');
+  return new AppError('unknown');
+};
+
+const describeCandidate = ({ titulo, artista }: { titulo: string; artista: string }) => `"${titulo}" by ${artista}`;
+
+// The user's side of a follow-up turn
+const refinementMessage = ({ candidates, feedback }: RefinementTurn) => {
+  const rejected = candidates.filter(c => c.rejected);
+  const lines: string[] = [];
+  if (rejected.length > 0) {
+    lines.push(`These are NOT the song I'm looking for: ${rejected.map(describeCandidate).join('; ')}.`);
+  }
+  if (feedback.trim()) {
+    lines.push(`More details: "${feedback.trim()}"`);
+  }
+  lines.push("Return an updated list of matches, best first. Never suggest a song I rejected; keep earlier candidates only if they still fit.");
+  return lines.join('\n');
+};
+
+// Replays the conversation so far: the original search, then for each turn
+// the candidates the model gave (as the model's answer) and the user's
+// reply to them. The last turn's reply is sent as the new message.
+const buildHistory = (firstMessage: Part[], refinements: RefinementTurn[]): Content[] => {
+  const history: Content[] = [{ role: 'user', parts: firstMessage }];
+  refinements.forEach((turn, i) => {
+    const answer = turn.candidates.map(({ titulo, artista }) => ({ titulo, artista }));
+    history.push({ role: 'model', parts: [{ text: JSON.stringify(answer) }] });
+    if (i < refinements.length - 1) {
+      history.push({ role: 'user', parts: [{ text: refinementMessage(turn) }] });
+    }
+  });
+  return history;
+};
+
+export async function* searchMusic(
+  ai: GoogleGenAI,
+  { text, audioBase64, mimeType, refinements = [], locale = DEFAULT_LOCALE }: SearchQuery,
+  { signal, generation = DEFAULT_GENERATION }: SearchOptions = {}
+): AsyncGenerator<Song> {
+  const { model: modelName, temperature, maxResults } = generation;
+
   let promptText = "";
   
   if (audioBase64 && text) {
@@ -43,7 +126,11 @@ export const searchMusic = async (
     promptText = `Find songs matching this description: "${text}". If it mentions a movie scene, mood, or vague lyrics, use your knowledge to find the specific track.`;
   }
 
-  const parts: any[] = [{ text: promptText }];
+  // Titles and artists stay as released; only the explanation is localized
+  const language = LOCALES[locale].promptLanguage;
+  promptText += ` Return at most ${maxResults} matches, best first. Write each "description" in ${language}.`;
+
+  const parts: Part[] = [{ text: promptText }];
 
   if (audioBase64) {
     parts.push({
@@ -54,28 +141,83 @@ export const searchMusic = async (
     });
   }
 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: {
-        parts: parts
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: SONG_SCHEMA,
-        systemInstruction: "You are JacareFinder, an expert music discovery assistant. You specialize in identifying songs from humming, context descriptions (e.g., 'that sad song in The Matrix'), or partial lyrics. Always return a JSON array of matches.",
-        temperature: 0.4
-      }
-    });
+  // Aborts are the caller's doing, so pass them through untouched.
+  const failed = (error: unknown) => {
+    if (signal?.aborted) return error;
+    const classified = classifyError(error);
+    console.error(`Gemini Search Error (${classified.code}):`, error);
+    return classified;
+  };
 
-    const textResponse = response.text;
-    if (!textResponse) return [];
-    
-    const results = JSON.parse(textResponse) as Song[];
-    return results;
+  const config: GenerateContentConfig = {
+    responseMimeType: "application/json",
+    responseSchema: SONG_SCHEMA,
+    systemInstruction: "You are JacareFinder, an expert music discovery assistant. You specialize in identifying songs from humming, context descriptions (e.g., 'that sad song in The Matrix'), or partial lyrics. Always return a JSON array of matches. " +
+      "For each match, explain it in \"evidence\": the lyricFragments that match what the user quoted, the film or scene they referenced, the melodicFeatures you recognized in the audio, and audioStartSeconds/audioEndSeconds for the part of the audio that matched. Leave out anything that doesn't apply. " +
+      "Confidence is 0-100; use a value below 50 when you are guessing. " +
+      `The user reads ${language}: write every "description", scene and melodic feature in ${language}, but keep song titles, artist names and lyrics exactly as officially released.`,
+    temperature,
+  };
 
+  let stream: AsyncGenerator<GenerateContentResponse>;
+  try {
+    if (refinements.length > 0) {
+      // Follow-ups continue a chat seeded with the earlier turns, so the
+      // model sees what it suggested and what the user ruled out.
+      const chat = ai.chats.create({ model: modelName, config, history: buildHistory(parts, refinements) });
+      stream = await chat.sendMessageStream({
+        message: refinementMessage(refinements[refinements.length - 1]),
+        // A per-message config replaces the chat's, so repeat it in full
+        config: { ...config, abortSignal: signal }
+      });
+    } else {
+      stream = await ai.models.generateContentStream({
+        model: modelName,
+        contents: {
+          parts: parts
+        },
+        config: { ...config, abortSignal: signal }
+      });
+    }
   } catch (error) {
-    console.error("Gemini Search Error:", error);
-    throw new Error("Failed to search for music. Please try again.");
+    throw failed(error);
+  }
+
+  const parser = createJsonArrayParser();
+  const normalizer = createSongNormalizer();
+  // The prompt asks for maxResults, but the model doesn't always listen.
+  // Better-scored duplicates of songs already shown still come through.
+  const shown = new Set<string>();
+
+  while (true) {
+    let chunk: IteratorResult<GenerateContentResponse>;
+    try {
+      chunk = await stream.next();
+    } catch (error) {
+      throw failed(error);
+    }
+    if (chunk.done) break;
+
+    // A block mid-answer keeps what was already shown; the rest of the
+    // array will never arrive, so don't try to finish parsing it
+    if (isBlocked(chunk.value)) {
+      if (shown.size === 0) throw new AppError('safety_block');
+      return;
+    }
+
+    for (const entry of parser.push(chunk.value.text ?? '')) {
+      const song = normalizer.push(entry);
+      if (song && (shown.has(song.id) || shown.size < maxResults)) {
+        shown.add(song.id);
+        yield song;
+      }
+    }
+  }
+
+  // Both throw MalformedResponseError, which the UI already understands
+  parser.finish();
+  normalizer.finish();
+  if (normalizer.dropped.length > 0) {
+    console.warn("Dropped invalid songs from Gemini response:", normalizer.dropped);
   }
-};
\ No newline at end of file
+}
@@ -0,0 +1,79 @@
+import { GenerationSettings, HistoryEntry } from "../types";
+import { SearchQuery } from "./searchProvider";
+import { HISTORY_STORE, openDatabase, promisifyRequest, transactionDone } from "./db";
+import { base64ToBlob } from "./audioEncoding";
+import { DEFAULT_LOCALE } from "./i18n";
+import { isDefaultGeneration } from "./searchSettings";
+
+const MAX_ENTRIES = 50;
+// Old answers go stale as the model improves; re-ask after a day.
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cache key for a query. Whitespace and case in the description don't
+ * change the answer, so they don't change the key either.
+ */
+// Descriptions come back in the query's language and results depend on the
+// model settings, so both are part of the key. Defaults add nothing, which
+// keeps keys from before either existed valid.
+export const hashQuery = async (
+  { text, audioBase64, locale = DEFAULT_LOCALE }: SearchQuery,
+  generation?: GenerationSettings
+): Promise<string> => {
+  const normalizedText = text.trim().replace(/\s+/g, ' ').toLowerCase();
+  let prefix = locale === DEFAULT_LOCALE ? '' : `${locale}\u0000`;
+  if (generation && !isDefaultGeneration(generation)) {
+    prefix += `${generation.model}/${generation.temperature}/${generation.maxResults}\u0000`;
+  }
+  const data = new TextEncoder().encode(`${prefix}${normalizedText}\u0000${audioBase64 ?? ''}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).index('timestamp');
+  const entries = await promisifyRequest(index.getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.reverse();
+};
+
+export const getCachedEntry = async (id: string, now: number = Date.now()): Promise<HistoryEntry | null> => {
+  const db = await openDatabase();
+  const entry = await promisifyRequest(db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).get(id) as IDBRequest<HistoryEntry | undefined>);
+  if (!entry || entry.results.length === 0 || now - entry.timestamp > CACHE_TTL_MS) return null;
+  return entry;
+};
+
+export const saveHistoryEntry = async (id: string, query: SearchQuery, results: HistoryEntry['results']): Promise<HistoryEntry> => {
+  const entry: HistoryEntry = {
+    id,
+    text: query.text,
+    audio: query.audioBase64 ? base64ToBlob(query.audioBase64, query.mimeType) : null,
+    mimeType: query.mimeType,
+    pitchContour: query.pitchContour,
+    timestamp: Date.now(),
+    results,
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  store.put(entry);
+
+  // Keep only the newest MAX_ENTRIES; audio makes this store grow quickly.
+  const keys = await promisifyRequest(store.index('timestamp').getAllKeys());
+  keys.slice(0, Math.max(0, keys.length - MAX_ENTRIES)).forEach(key => store.delete(key));
+
+  await transactionDone(tx);
+  return entry;
+};
+
+export const deleteHistoryEntry = async (id: string) => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE).delete(id));
+};
+
+export const clearHistory = async () => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(HISTORY_STORE, 'readwrite').objectStore(HISTORY_STORE).clear());
+};
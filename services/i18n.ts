@@ -0,0 +1,87 @@
+import { en } from "./locales/en";
+import { ptBR } from "./locales/ptBR";
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+export type Locale = 'en' | 'pt-BR';
+
+interface LocaleInfo {
+  // Shown in the language switcher, in its own language
+  label: string;
+  messages: Messages;
+  // Name of the language as written into model prompts
+  promptLanguage: string;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  'pt-BR': { label: 'Português (Brasil)', messages: ptBR, promptLanguage: 'Brazilian Portuguese' },
+  en: { label: 'English', messages: en, promptLanguage: 'English' },
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const STORAGE_KEY = 'jacareLocale';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+// Any Portuguese browser gets pt-BR; everything else falls back to English.
+export const detectLocale = (languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale => {
+  for (const language of languages) {
+    if (isLocale(language)) return language;
+    if (language.toLowerCase().startsWith('pt')) return 'pt-BR';
+    if (language.toLowerCase().startsWith('en')) return 'en';
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch (e) {
+    console.error("Failed to load language preference", e);
+  }
+  return detectLocale();
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
+
+/**
+ * Looks up a message and fills in its {placeholders}. Messages written as
+ * "one|other" pick a form from params.count using the locale's plural rules.
+ */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  let message = LOCALES[locale].messages[key] ?? en[key];
+  if (message.includes('|')) {
+    const [one, other] = message.split('|');
+    const count = typeof params?.count === 'number' ? params.count : 0;
+    message = new Intl.PluralRules(locale).select(count) === 'one' ? one : other;
+  }
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+};
+
+export interface Translator {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+export const createTranslator = (locale: Locale): Translator => ({
+  locale,
+  t: (key, params) => translate(locale, key, params),
+});
+
+/**
+ * Base class for errors the UI shows to the user. The message is kept in
+ * English for logs; the UI translates messageKey instead.
+ */
+export class LocalizedError extends Error {
+  constructor(public messageKey: MessageKey, public params?: MessageParams) {
+    super(translate(DEFAULT_LOCALE, messageKey, params));
+  }
+}
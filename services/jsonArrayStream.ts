@@ -0,0 +1,75 @@
+import { MalformedResponseError } from "./songValidation";
+
+/**
+ * Pulls complete elements out of a JSON array while it is still being
+ * streamed, e.g. '[{"a":1},{"a"' yields {a: 1} and waits for the rest.
+ * Only object and array elements are emitted; scalars are skipped.
+ */
+export const createJsonArrayParser = () => {
+  let buffer = '';
+  let pos = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+  let sawArray = false;
+
+  return {
+    push(chunk: string): unknown[] {
+      const elements: unknown[] = [];
+      buffer += chunk;
+
+      for (; pos < buffer.length; pos++) {
+        const ch = buffer[pos];
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === '\\') escaped = true;
+          else if (ch === '"') inString = false;
+          continue;
+        }
+
+        if (depth === 0) {
+          if (ch === '[' && !sawArray) {
+            sawArray = true;
+            depth = 1;
+          } else if (!/\s/.test(ch)) {
+            throw new MalformedResponseError('not_array');
+          }
+          continue;
+        }
+
+        if (ch === '"') {
+          inString = true;
+        } else if (ch === '{' || ch === '[') {
+          if (depth === 1) elementStart = pos;
+          depth++;
+        } else if (ch === '}' || ch === ']') {
+          depth--;
+          if (depth === 1 && elementStart >= 0) {
+            try {
+              elements.push(JSON.parse(buffer.slice(elementStart, pos + 1)));
+            } catch {
+              throw new MalformedResponseError('invalid_json');
+            }
+            elementStart = -1;
+          }
+        }
+      }
+
+      // Drop everything we no longer need so long answers don't pile up.
+      const keepFrom = elementStart >= 0 ? elementStart : pos;
+      buffer = buffer.slice(keepFrom);
+      pos -= keepFrom;
+      if (elementStart >= 0) elementStart = 0;
+
+      return elements;
+    },
+    // An empty answer is fine; a truncated one is not.
+    finish() {
+      if (depth !== 0 || inString) {
+        throw new MalformedResponseError('invalid_json');
+      }
+    },
+  };
+};
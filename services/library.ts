@@ -0,0 +1,94 @@
+import { Library, LibraryEntry, LibrarySort, Playlist, Song } from "../types";
+import { isSameSong } from "./songIdentity";
+
+// Pure helpers for the favorites library. Each returns a new Library so
+// they can be used directly inside setState updaters.
+
+export const findEntry = (library: Library, song: Song) =>
+  library.entries.find(entry => isSameSong(entry.song, song));
+
+export const addSong = (library: Library, song: Song, now: number = Date.now()): Library => {
+  if (findEntry(library, song)) return library;
+  return {
+    ...library,
+    entries: [...library.entries, { song, addedAt: now, tags: [], notes: '' }],
+  };
+};
+
+export const removeSong = (library: Library, song: Song): Library => {
+  const entry = findEntry(library, song);
+  if (!entry) return library;
+  return {
+    entries: library.entries.filter(e => e !== entry),
+    playlists: library.playlists.map(p => ({ ...p, songIds: p.songIds.filter(id => id !== entry.song.id) })),
+  };
+};
+
+export const updateEntry = (library: Library, songId: string, changes: Partial<Pick<LibraryEntry, 'tags' | 'notes'>>): Library => ({
+  ...library,
+  entries: library.entries.map(entry => (entry.song.id === songId ? { ...entry, ...changes } : entry)),
+});
+
+// Tags are typed free-form ("Rock, 90s ,rock"); keep one of each, trimmed.
+export const parseTags = (input: string) => {
+  const seen = new Set<string>();
+  return input
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const createPlaylist = (library: Library, name: string, id: string = crypto.randomUUID(), now: number = Date.now()): Library => {
+  const playlist: Playlist = { id, name: name.trim() || 'Untitled playlist', songIds: [], createdAt: now };
+  return { ...library, playlists: [...library.playlists, playlist] };
+};
+
+export const renamePlaylist = (library: Library, playlistId: string, name: string): Library => ({
+  ...library,
+  playlists: library.playlists.map(p => (p.id === playlistId && name.trim() ? { ...p, name: name.trim() } : p)),
+});
+
+export const deletePlaylist = (library: Library, playlistId: string): Library => ({
+  ...library,
+  playlists: library.playlists.filter(p => p.id !== playlistId),
+});
+
+export const togglePlaylistSong = (library: Library, playlistId: string, songId: string): Library => ({
+  ...library,
+  playlists: library.playlists.map(p => {
+    if (p.id !== playlistId) return p;
+    const songIds = p.songIds.includes(songId) ? p.songIds.filter(id => id !== songId) : [...p.songIds, songId];
+    return { ...p, songIds };
+  }),
+});
+
+const COMPARATORS: Record<LibrarySort, (a: LibraryEntry, b: LibraryEntry) => number> = {
+  addedAt: (a, b) => b.addedAt - a.addedAt,
+  titulo: (a, b) => a.song.titulo.localeCompare(b.song.titulo),
+  artista: (a, b) => a.song.artista.localeCompare(b.song.artista) || a.song.titulo.localeCompare(b.song.titulo),
+  confidence: (a, b) => b.song.confidence - a.song.confidence,
+};
+
+export const sortEntries = (entries: LibraryEntry[], sort: LibrarySort) => [...entries].sort(COMPARATORS[sort]);
+
+// Case- and accent-insensitive, but unlike normalizeKey keeps everything
+// (a note saying "feat. Anitta" should still be searchable).
+const fold = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Matches every word of the query against title, artist, tags, notes and
+ * description, ignoring case and accents.
+ */
+export const filterEntries = (entries: LibraryEntry[], query: string) => {
+  const words = fold(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return entries;
+  return entries.filter(({ song, tags, notes }) => {
+    const haystack = fold([song.titulo, song.artista, song.description ?? '', notes, ...tags].join(' '));
+    return words.every(word => haystack.includes(word));
+  });
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Library } from '../types';
+import { exportLibrary, parseImport } from './libraryTransfer';
+import { songId } from './songIdentity';
+
+const time = {
+  id: songId('Time', 'Hans Zimmer'),
+  titulo: 'Time',
+  artista: 'Hans Zimmer',
+  matchType: 'Contexto' as const,
+  confidence: 92,
+};
+
+describe('library import', () => {
+  it('counts M3U tracks it has no artist for', () => {
+    const m3u = '#EXTM3U\n#EXTINF:-1,Hans Zimmer - Time\nhttps://example.com/1\n#EXTINF:-1,Track 02\nfile.mp3\n';
+
+    const { library, skipped } = parseImport('mix.m3u8', m3u);
+
+    expect(library.entries.map(entry => entry.song.titulo)).toEqual(['Time']);
+    expect(skipped).toBe(1);
+  });
+
+  it('counts JSON entries it could not read', () => {
+    const json = JSON.stringify({
+      version: 2,
+      entries: [
+        { song: time, addedAt: 1700000000000, tags: [], notes: '' },
+        { song: { titulo: 'No artist' }, addedAt: 1700000000000, tags: [], notes: '' },
+      ],
+      playlists: [],
+    });
+
+    const { library, skipped } = parseImport('backup.json', json);
+
+    expect(library.entries.map(entry => entry.song.titulo)).toEqual(['Time']);
+    expect(skipped).toBe(1);
+  });
+});
+
+describe('CSV export', () => {
+  const library: Library = {
+    entries: [{ song: time, addedAt: 1700000000000, tags: ['+score'], notes: '=HYPERLINK("http://evil")' }],
+    playlists: [],
+  };
+
+  it('keeps spreadsheets from running cells as formulas', () => {
+    const csv = exportLibrary(library, 'csv');
+
+    expect(csv).toContain(`'+score,"'=HYPERLINK(""http://evil"")"`);
+  });
+
+  it('reads the escaped cells back as written', () => {
+    const { library: imported } = parseImport('favorites.csv', exportLibrary(library, 'csv'));
+
+    expect(imported.entries[0].tags).toEqual(['+score']);
+    expect(imported.entries[0].notes).toBe('=HYPERLINK("http://evil")');
+  });
+});
@@ -0,0 +1,364 @@
+import { Library, LibraryEntry, Playlist } from "../types";
+import { migrateLibrary, serializeLibrary } from "./favoritesStorage";
+import { findEntry } from "./library";
+import { DEFAULT_LINK_PROVIDER, LinkProvider, getLinkProvider, songUrl } from "./linkProviders";
+import { LocalizedError, MessageKey } from "./i18n";
+import { isSameSong } from "./songIdentity";
+import { repairSong } from "./songValidation";
+
+export type TransferFormat = 'json' | 'csv' | 'm3u' | 'xspf';
+
+// Labels live in the locale catalogs as transfer.format.<format>
+export const TRANSFER_FORMATS: Record<TransferFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  m3u: { extension: 'm3u8', mimeType: 'audio/x-mpegurl' },
+  xspf: { extension: 'xspf', mimeType: 'application/xspf+xml' },
+};
+
+export const IMPORT_ACCEPT = '.json,.csv,.m3u,.m3u8,.xspf';
+
+export interface ImportResult {
+  library: Library;
+  // Rows dropped for lacking a title or artist
+  skipped: number;
+}
+
+export class ImportError extends LocalizedError {
+  constructor(messageKey: MessageKey) {
+    super(messageKey);
+    this.name = 'ImportError';
+  }
+}
+
+const CSV_COLUMNS = ['title', 'artist', 'match_type', 'confidence', 'added_at', 'tags', 'notes', 'playlists', 'isrc'];
+
+// Spreadsheets run cells starting with these as formulas; a leading
+// apostrophe makes them text, and is stripped again on import.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvField = (value: string) => {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvText = (value: string | undefined) =>
+  value !== undefined && value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+
+const xmlEscape = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const exportCsv = (library: Library, entries: LibraryEntry[]) => {
+  const rows = entries.map(entry => {
+    const playlists = library.playlists.filter(p => p.songIds.includes(entry.song.id)).map(p => p.name);
+    return [
+      entry.song.titulo,
+      entry.song.artista,
+      entry.song.matchType,
+      entry.song.unscored ? '' : String(entry.song.confidence),
+      new Date(entry.addedAt).toISOString(),
+      entry.tags.join('; '),
+      entry.notes,
+      playlists.join('; '),
+      entry.song.externalIds?.isrc ?? '',
+    ].map(csvField).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// Playlists carry no files, so each track points at the song on a streaming
+// service. Players that can't open it still pick up the title/artist from
+// the metadata.
+const exportM3u = (entries: LibraryEntry[], name: string, links: LinkProvider) => {
+  const lines = ['#EXTM3U', `#PLAYLIST:${name}`];
+  for (const entry of entries) {
+    lines.push(`#EXTINF:-1,${entry.song.artista} - ${entry.song.titulo}`, songUrl(links, entry.song));
+  }
+  return lines.join('\n') + '\n';
+};
+
+const exportXspf = (entries: LibraryEntry[], name: string, links: LinkProvider) => {
+  const tracks = entries.map(entry => {
+    const fields = [
+      `      <location>${xmlEscape(songUrl(links, entry.song))}</location>`,
+      entry.song.externalIds?.isrc && `      <identifier>isrc:${xmlEscape(entry.song.externalIds.isrc)}</identifier>`,
+      `      <title>${xmlEscape(entry.song.titulo)}</title>`,
+      `      <creator>${xmlEscape(entry.song.artista)}</creator>`,
+      entry.notes && `      <annotation>${xmlEscape(entry.notes)}</annotation>`,
+    ].filter(Boolean);
+    return `    <track>\n${fields.join('\n')}\n    </track>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${xmlEscape(name)}</title>`,
+    '  <trackList>',
+    ...tracks,
+    '  </trackList>',
+    '</playlist>',
+  ].join('\n') + '\n';
+};
+
+/**
+ * Serializes the library, or one playlist of it. JSON is always the whole
+ * library (it's the backup format); the others export the playlist when
+ * one is given.
+ */
+export const exportLibrary = (
+  library: Library,
+  format: TransferFormat,
+  playlist: Playlist | null = null,
+  links: LinkProvider = getLinkProvider(DEFAULT_LINK_PROVIDER)!
+): string => {
+  if (format === 'json') return serializeLibrary(library);
+
+  const entries = playlist
+    ? playlist.songIds.map(id => library.entries.find(e => e.song.id === id)).filter((e): e is LibraryEntry => !!e)
+    : library.entries;
+  const name = playlist?.name ?? 'JacareFinder Favorites';
+
+  if (format === 'csv') return exportCsv(library, entries);
+  if (format === 'm3u') return exportM3u(entries, name, links);
+  return exportXspf(entries, name, links);
+};
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and newlines.
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const splitList = (value: string | undefined) =>
+  (value ?? '').split(';').map(v => v.trim()).filter(Boolean);
+
+// Builds a library from flat rows, creating playlists by name.
+const buildLibrary = (
+  rows: { titulo: string; artista: string; matchType?: string; confidence?: string; addedAt?: string; isrc?: string; tags?: string[]; notes?: string; playlists?: string[] }[],
+  now: number
+): ImportResult => {
+  const library: Library = { entries: [], playlists: [] };
+  const playlistsByName = new Map<string, Playlist>();
+  let skipped = 0;
+
+  for (const row of rows) {
+    const song = repairSong({
+      titulo: row.titulo,
+      artista: row.artista,
+      matchType: row.matchType,
+      confidence: row.confidence,
+      unscored: !row.confidence?.trim(),
+      externalIds: row.isrc ? { isrc: row.isrc } : undefined,
+    });
+    if (!song) {
+      skipped++;
+      continue;
+    }
+
+    if (!findEntry(library, song)) {
+      const addedAt = row.addedAt ? Date.parse(row.addedAt) : NaN;
+      library.entries.push({
+        song,
+        addedAt: Number.isFinite(addedAt) ? addedAt : now,
+        tags: row.tags ?? [],
+        notes: row.notes ?? '',
+      });
+    }
+
+    for (const name of row.playlists ?? []) {
+      let playlist = playlistsByName.get(name);
+      if (!playlist) {
+        playlist = { id: crypto.randomUUID(), name, songIds: [], createdAt: now };
+        playlistsByName.set(name, playlist);
+        library.playlists.push(playlist);
+      }
+      if (!playlist.songIds.includes(song.id)) playlist.songIds.push(song.id);
+    }
+  }
+
+  return { library, skipped };
+};
+
+const importCsv = (text: string, now: number): ImportResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new ImportError('transfer.csvEmpty');
+
+  const columns = header.map(h => h.trim().toLowerCase());
+  const column = (...names: string[]) => columns.findIndex(c => names.includes(c));
+  const title = column('title', 'titulo', 'track', 'name');
+  const artist = column('artist', 'artista', 'creator');
+  if (title < 0 || artist < 0) {
+    throw new ImportError('transfer.csvColumns');
+  }
+  const cell = (row: string[], index: number) => (index >= 0 ? csvText(row[index]) : undefined);
+
+  return buildLibrary(rows.map(row => ({
+    titulo: cell(row, title) ?? '',
+    artista: cell(row, artist) ?? '',
+    matchType: cell(row, column('match_type', 'matchtype')),
+    confidence: cell(row, column('confidence')),
+    addedAt: cell(row, column('added_at', 'addedat')),
+    isrc: cell(row, column('isrc')),
+    tags: splitList(cell(row, column('tags'))),
+    notes: cell(row, column('notes')),
+    playlists: splitList(cell(row, column('playlists', 'playlist'))),
+  })), now);
+};
+
+// "#EXTINF:123,Artist - Title". Anything without an EXTINF line has no
+// usable metadata and is ignored; an EXTINF without an artist is counted
+// as skipped.
+const importM3u = (text: string, playlistName: string, now: number): ImportResult => {
+  const name = text.match(/^#PLAYLIST:(.+)$/m)?.[1].trim() || playlistName;
+  const rows = [...text.matchAll(/^#EXTINF:[^,]*,(.+)$/gm)].map(([, info]) => {
+    const separator = info.indexOf(' - ');
+    return separator >= 0
+      ? { artista: info.slice(0, separator).trim(), titulo: info.slice(separator + 3).trim(), playlists: [name] }
+      : { artista: '', titulo: info.trim(), playlists: [name] };
+  });
+  return buildLibrary(rows, now);
+};
+
+const importXspf = (text: string, playlistName: string, now: number): ImportResult => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new ImportError('transfer.xspfInvalid');
+  }
+  const childText = (parent: Element, tag: string) => parent.getElementsByTagName(tag)[0]?.textContent?.trim() ?? '';
+  const playlistTitle = Array.from(doc.documentElement.children).find(el => el.localName === 'title')?.textContent?.trim();
+  const name = playlistTitle || playlistName;
+
+  const rows = Array.from(doc.getElementsByTagName('track')).map(track => ({
+    titulo: childText(track, 'title'),
+    artista: childText(track, 'creator'),
+    notes: childText(track, 'annotation'),
+    isrc: childText(track, 'identifier').replace(/^isrc:/i, ''),
+    playlists: [name],
+  }));
+  return buildLibrary(rows, now);
+};
+
+const detectFormat = (fileName: string, text: string): TransferFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'm3u' || extension === 'm3u8') return 'm3u';
+  if (extension === 'xspf') return 'xspf';
+
+  const start = text.trimStart();
+  if (start.startsWith('{') || start.startsWith('[')) return 'json';
+  if (start.startsWith('#EXTM3U')) return 'm3u';
+  if (start.startsWith('<')) return 'xspf';
+  return 'csv';
+};
+
+/**
+ * Parses an exported file back into a Library. The format comes from the
+ * file extension, falling back to sniffing the content.
+ */
+export const parseImport = (fileName: string, text: string, now: number = Date.now()): ImportResult => {
+  const playlistName = fileName.replace(/\.[^.]+$/, '') || 'Imported';
+  const format = detectFormat(fileName, text);
+
+  if (format === 'json') {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new ImportError('transfer.jsonUnreadable');
+    }
+    const library = migrateLibrary(raw, now);
+    // A bare array is the old favorites format; otherwise a full library
+    const stored = Array.isArray(raw) ? raw : (raw as { entries?: unknown } | null)?.entries;
+    const skipped = Array.isArray(stored) ? Math.max(0, stored.length - library.entries.length) : 0;
+    return { library, skipped };
+  }
+  if (format === 'm3u') return importM3u(text, playlistName, now);
+  if (format === 'xspf') return importXspf(text, playlistName, now);
+  return importCsv(text, now);
+};
+
+export interface MergeResult {
+  library: Library;
+  added: number;
+  duplicates: number;
+}
+
+/**
+ * Adds imported songs to the library. Songs already there (same identity,
+ * see isSameSong) aren't duplicated; their tags are merged and notes kept
+ * unless empty. Playlists merge by name.
+ */
+export const mergeLibraries = (current: Library, incoming: Library): MergeResult => {
+  let added = 0;
+  let duplicates = 0;
+  const entries = [...current.entries];
+  // Imported song ids may differ from ours for the same song (e.g. ISRC match)
+  const idMap = new Map<string, string>();
+
+  for (const entry of incoming.entries) {
+    const index = entries.findIndex(e => isSameSong(e.song, entry.song));
+    if (index < 0) {
+      entries.push(entry);
+      idMap.set(entry.song.id, entry.song.id);
+      added++;
+      continue;
+    }
+    duplicates++;
+    const existing = entries[index];
+    idMap.set(entry.song.id, existing.song.id);
+    const tags = [...existing.tags];
+    for (const tag of entry.tags) {
+      if (!tags.some(t => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+    }
+    entries[index] = { ...existing, tags, notes: existing.notes || entry.notes };
+  }
+
+  const playlists = current.playlists.map(p => ({ ...p, songIds: [...p.songIds] }));
+  for (const playlist of incoming.playlists) {
+    const songIds = playlist.songIds.map(id => idMap.get(id)).filter((id): id is string => !!id);
+    const existing = playlists.find(p => p.name.toLowerCase() === playlist.name.toLowerCase());
+    if (existing) {
+      for (const id of songIds) {
+        if (!existing.songIds.includes(id)) existing.songIds.push(id);
+      }
+    } else {
+      playlists.push({ ...playlist, id: crypto.randomUUID(), songIds });
+    }
+  }
+
+  return { library: { entries, playlists }, added, duplicates };
+};
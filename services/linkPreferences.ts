@@ -0,0 +1,50 @@
+import { LinkPreferences } from "../types";
+import { DEFAULT_LINK_PROVIDER, LinkProvider, getLinkProvider, listLinkProviders } from "./linkProviders";
+
+const STORAGE_KEY = 'jacareLinkPreferences';
+
+export const defaultLinkPreferences = (): LinkPreferences => ({
+  visible: ['youtube', 'spotify', 'genius'],
+  defaultProvider: DEFAULT_LINK_PROVIDER,
+});
+
+// Drops providers that no longer exist and keeps the default visible, so a
+// stale or hand-edited value can't leave cards without a play button.
+export const sanitizeLinkPreferences = (raw: unknown): LinkPreferences => {
+  const fallback = defaultLinkPreferences();
+  if (!raw || typeof raw !== 'object') return fallback;
+  const record = raw as Record<string, unknown>;
+
+  const visible = Array.isArray(record.visible)
+    ? [...new Set(record.visible.filter((id): id is string => typeof id === 'string' && !!getLinkProvider(id)))]
+    : fallback.visible;
+  const defaultProvider = typeof record.defaultProvider === 'string' && getLinkProvider(record.defaultProvider)
+    ? record.defaultProvider
+    : visible[0] ?? fallback.defaultProvider;
+
+  return {
+    visible: visible.includes(defaultProvider) ? visible : [defaultProvider, ...visible],
+    defaultProvider,
+  };
+};
+
+export const loadLinkPreferences = (): LinkPreferences => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return sanitizeLinkPreferences(saved ? JSON.parse(saved) : null);
+  } catch (e) {
+    console.error("Failed to load link preferences", e);
+    return defaultLinkPreferences();
+  }
+};
+
+export const saveLinkPreferences = (preferences: LinkPreferences) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+};
+
+/** Visible providers in registry order, with the default first. */
+export const visibleLinkProviders = (preferences: LinkPreferences): LinkProvider[] => {
+  const visible = listLinkProviders().filter(p => preferences.visible.includes(p.id));
+  const index = visible.findIndex(p => p.id === preferences.defaultProvider);
+  return index > 0 ? [visible[index], ...visible.slice(0, index), ...visible.slice(index + 1)] : visible;
+};
@@ -0,0 +1,72 @@
+import { Song } from "../types";
+
+// A streaming or lyrics service a song can be opened on. directUrl is tried
+// first and returns null when the song has no id on that service.
+export interface LinkProvider {
+  id: string;
+  name: string;
+  searchUrl: (song: Song) => string;
+  directUrl?: (song: Song) => string | null;
+}
+
+const searchTerms = (song: Song) => encodeURIComponent(`${song.titulo} ${song.artista}`);
+
+const BUILT_IN_PROVIDERS: LinkProvider[] = [
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    searchUrl: song => `https://www.youtube.com/results?search_query=${searchTerms(song)}`,
+    directUrl: song => song.externalIds?.youtubeVideoId ? `https://www.youtube.com/watch?v=${song.externalIds.youtubeVideoId}` : null,
+  },
+  {
+    id: 'youtube-music',
+    name: 'YouTube Music',
+    searchUrl: song => `https://music.youtube.com/search?q=${searchTerms(song)}`,
+    directUrl: song => song.externalIds?.youtubeVideoId ? `https://music.youtube.com/watch?v=${song.externalIds.youtubeVideoId}` : null,
+  },
+  {
+    id: 'spotify',
+    name: 'Spotify',
+    searchUrl: song => `https://open.spotify.com/search/${searchTerms(song)}`,
+    // Spotify's search understands isrc: queries, which lands on the exact track
+    directUrl: song => {
+      const ids = song.externalIds;
+      if (ids?.spotifyId) return `https://open.spotify.com/track/${ids.spotifyId}`;
+      if (ids?.isrc) return `https://open.spotify.com/search/${encodeURIComponent(`isrc:${ids.isrc}`)}`;
+      return null;
+    },
+  },
+  {
+    id: 'apple-music',
+    name: 'Apple Music',
+    searchUrl: song => `https://music.apple.com/search?term=${searchTerms(song)}`,
+    directUrl: song => song.externalIds?.appleMusicId ? `https://music.apple.com/song/${song.externalIds.appleMusicId}` : null,
+  },
+  {
+    id: 'deezer',
+    name: 'Deezer',
+    searchUrl: song => `https://www.deezer.com/search/${searchTerms(song)}`,
+    directUrl: song => song.externalIds?.deezerId ? `https://www.deezer.com/track/${song.externalIds.deezerId}` : null,
+  },
+  {
+    id: 'genius',
+    name: 'Genius',
+    searchUrl: song => `https://genius.com/search?q=${searchTerms(song)}`,
+    directUrl: song => song.externalIds?.geniusId ? `https://genius.com/songs/${song.externalIds.geniusId}` : null,
+  },
+];
+
+const registry = new Map<string, LinkProvider>(BUILT_IN_PROVIDERS.map(provider => [provider.id, provider]));
+
+export const DEFAULT_LINK_PROVIDER = 'youtube';
+
+/** Adds a provider (or replaces one with the same id). Registration order is display order. */
+export const registerLinkProvider = (provider: LinkProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const listLinkProviders = (): LinkProvider[] => [...registry.values()];
+
+export const getLinkProvider = (id: string): LinkProvider | undefined => registry.get(id);
+
+export const songUrl = (provider: LinkProvider, song: Song) => provider.directUrl?.(song) ?? provider.searchUrl(song);
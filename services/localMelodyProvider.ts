@@ -0,0 +1,40 @@
+import { Song } from "../types";
+import { matchMelody } from "./melodyMatcher";
+import { MusicSearchProvider, SearchOptions, SearchQuery } from "./searchProvider";
+
+// Audio-only searches stop here when a saved melody matches this well.
+const CONFIDENT_MATCH = 85;
+
+/**
+ * Wraps a provider so hummed queries are first matched against melodies
+ * saved with favorites. Local matches are yielded immediately; the remote
+ * search then runs unless a local match is convincing on its own, and its
+ * results merge in (a local match wins over a weaker remote duplicate).
+ */
+export const withLocalMelodyMatches = (
+  remote: MusicSearchProvider,
+  getCatalog: () => Song[]
+): MusicSearchProvider => ({
+  name: `${remote.name}+melody`,
+  async *searchMusic(query: SearchQuery, options?: SearchOptions) {
+    // Local matches were already offered in the first turn
+    if (query.refinements?.length) {
+      yield* remote.searchMusic(query, options);
+      return;
+    }
+
+    const local = query.pitchContour ? matchMelody(query.pitchContour, getCatalog()) : [];
+    for (const song of local) yield song;
+
+    if (local.length > 0 && local[0].confidence >= CONFIDENT_MATCH && !query.text.trim()) {
+      return;
+    }
+
+    const localById = new Map(local.map(song => [song.id, song]));
+    for await (const song of remote.searchMusic(query, options)) {
+      const mine = localById.get(song.id);
+      if (mine && mine.confidence >= song.confidence) continue;
+      yield song;
+    }
+  },
+});
@@ -0,0 +1,159 @@
+// Source catalog: every key the UI uses, in English. Other locales must
+// translate all of them (see services/i18n.ts). "one|other" messages are
+// picked by the {count} parameter.
+export const en = {
+  'app.tagline': 'AI Powered Music Discovery',
+  'tabs.search': 'Search',
+  'tabs.favorites': 'Favorites',
+  'tabs.history': 'History',
+
+  'search.placeholder': "e.g. 'That sad piano song from the end of the movie Inception' or 'Lyrics about falling in the deep end'...",
+  'search.submit': 'Find Music',
+  'search.analyzing': 'Analyzing...',
+  'search.clearAll': 'Clear All',
+  'search.cancelAndClear': 'Cancel & Clear',
+  'search.results': 'Results',
+  'search.noResults': 'No results found yet.',
+  'search.emptyHint': 'Search results will appear here.',
+  'search.missingInput': 'Please describe a song or record audio first.',
+  'search.unexpectedError': 'An unexpected error occurred.',
+  'search.retrying': 'Having trouble, retrying ({attempt} of {total})...',
+
+  'error.apiKey': "The search server's Gemini API key is missing or invalid. Whoever runs this app needs to check GEMINI_API_KEY.",
+  'error.quota': 'Too many searches right now. Wait a moment and try again.',
+  'error.retryIn': 'You can search again in {seconds}s.',
+  'error.offline': "Can't reach the search server. Check your internet connection.",
+  'error.payloadTooLarge': 'The recording is too large to send. Trim it to the part you want identified, or record a shorter clip.',
+  'error.textTooLong': 'The description is too long. Shorten it and search again.',
+  'error.unsupportedAudio': "The search server can't use this audio format. Record again or upload an mp3, m4a, wav, ogg or webm file.",
+  'error.invalidRequest': 'The search server rejected this request. Reloading the app may fix it.',
+  'error.safetyBlock': 'The safety filter blocked this search. Try describing the song differently.',
+  'error.malformedResponse': "The search returned results we couldn't read.",
+  'error.unavailable': 'The search service is busy or down right now.',
+  'error.microphoneDenied': "Microphone access is blocked. Allow it in your browser's site settings, or upload a recording instead.",
+  'error.microphoneUnavailable': 'No working microphone was found. Connect one, or upload a recording instead.',
+  'error.action.retry': 'Try again',
+  'error.action.editText': 'Edit description',
+  'error.action.discardAudio': 'Discard recording',
+  'error.action.uploadAudio': 'Upload a file',
+  'error.diagnostics': 'Code {code} · {count} attempt|Code {code} · {count} attempts',
+
+  'queue.pending': '{count} search waiting for a connection|{count} searches waiting for a connection',
+  'queue.hint': "They'll run on their own when you're back online, and you'll get a notification with the results.",
+  'queue.remove': 'Remove from queue',
+  'queue.notificationTitle': 'Your saved search is done',
+  'queue.notificationBody': '{query}: {count} match|{query}: {count} matches',
+
+  'refine.title': 'Not quite?',
+  'refine.placeholder': "e.g. 'it was a female singer, around 2005'",
+  'refine.submit': 'Refine results',
+  'refine.rejectedCount': "{count} marked as not it. It won't be suggested again.|{count} marked as not it. They won't be suggested again.",
+  'refine.hint': 'Mark wrong results as "not it" or describe what was different.',
+
+  'song.matchType.Texto': 'Text',
+  'song.matchType.Melodia': 'Melody',
+  'song.matchType.Contexto': 'Context',
+  'song.confidence': '{confidence}% Match',
+  'song.unverified': 'Unverified',
+  'song.unverifiedHint': "Couldn't find this song in the music catalog. It may not exist.",
+  'song.addFavorite': 'Add to Favorites',
+  'song.removeFavorite': 'Remove from Favorites',
+  'song.openOn': 'Open on {service}',
+  'song.notIt': 'Not it',
+  'song.undoNotIt': "Undo 'not it'",
+  'song.guess': 'Guess',
+  'song.guessHint': "Low confidence. The model isn't sure about this one.",
+  'song.details': 'Why this match',
+  'song.evidence.lyrics': 'Lyrics',
+  'song.evidence.scene': 'Scene',
+  'song.evidence.melody': 'Melody',
+  'song.evidence.audioRange': 'Matched {start}–{end} of your audio',
+
+  'recorder.start': 'Start Recording',
+  'recorder.stop': 'Stop Recording',
+  'recorder.upload': 'Upload an audio file',
+  'recorder.captured': 'Audio Captured',
+  'recorder.discard': 'Discard',
+  'recorder.idleHint': 'Tap to hum, sing, or whistle — or drop a clip',
+  'recorder.dropHint': 'Drop to use this clip',
+  'recorder.recordingHint': 'Recording... Sing clearly!',
+  'recorder.processing': 'Cleaning up audio...',
+  'recorder.ready': 'Ready to search',
+  'recorder.unreadableFile': "Couldn't read that file.",
+  'recorder.tooQuiet': 'We can barely hear you. Move closer or sing louder.',
+  'recorder.clipping': 'Too loud, the audio is distorting. Back off a little.',
+  'trimmer.start': 'Start',
+  'trimmer.end': 'End',
+  'trimmer.summary': '{start} – {end} · sending {length}',
+  'trimmer.maxLength': ' (max {seconds}s)',
+
+  'audioFile.unplayable': "This file couldn't be played. It may be corrupted or in an unsupported format.",
+  'audioFile.unsupported': 'Unsupported file type. Use mp3, m4a, wav, ogg or webm.',
+  'audioFile.tooLarge': 'File is too large (max {megabytes} MB). Try a shorter clip.',
+  'audioFile.tooLong': 'Clip is too long (max {seconds} seconds). Trim it to the part you want identified.',
+
+  'history.title': 'Recent Searches',
+  'history.empty': 'Your past searches will show up here.',
+  'history.clear': 'Clear History',
+  'history.audioOnly': 'Audio only',
+  'history.audio': 'Audio',
+  'history.resultCount': '{count} result|{count} results',
+  'history.rerun': 'Run this search again',
+  'history.remove': 'Remove from history',
+
+  'library.title': 'Your Library',
+  'library.all': 'All ({count})',
+  'library.newPlaylist': 'New playlist',
+  'library.playlistName': 'Playlist name',
+  'library.rename': 'Rename',
+  'library.renamePrompt': 'Rename playlist',
+  'library.delete': 'Delete',
+  'library.deleteConfirm': 'Delete "{name}"? The songs stay in your library.',
+  'library.import': 'Import',
+  'library.exportPlaylist': 'Export "{name}"',
+  'library.exportLibrary': 'Export library',
+  'library.imported': 'Imported {count} song|Imported {count} songs',
+  'library.importedDuplicates': '{count} already in your library',
+  'library.importedSkipped': '{count} skipped for lacking an artist or title',
+  'library.importFailed': "That file couldn't be imported.",
+  'library.filterPlaceholder': 'Filter by title, artist, tag or note',
+  'library.sort.addedAt': 'Recently added',
+  'library.sort.titulo': 'Title',
+  'library.sort.artista': 'Artist',
+  'library.sort.confidence': 'Confidence',
+  'library.empty': "You haven't added any songs to your favorites yet.",
+  'library.emptyPlaylist': "This playlist is empty. Open a song's details to add it.",
+  'library.noMatches': 'Nothing matches that filter.',
+  'library.added': 'Added {date}',
+  'library.edit': 'Edit',
+  'library.close': 'Close',
+  'library.tagsPlaceholder': 'Tags, separated by commas',
+  'library.notesPlaceholder': 'Notes: where you heard it, who it reminds you of...',
+
+  'transfer.format.json': 'JSON backup',
+  'transfer.format.csv': 'CSV spreadsheet',
+  'transfer.format.m3u': 'M3U playlist',
+  'transfer.format.xspf': 'XSPF playlist',
+  'transfer.csvEmpty': 'The CSV file is empty.',
+  'transfer.csvColumns': 'The CSV needs "title" and "artist" columns.',
+  'transfer.xspfInvalid': "The XSPF file isn't valid XML.",
+  'transfer.jsonUnreadable': "The JSON file couldn't be read.",
+
+  'settings.title': 'Settings',
+  'settings.close': 'Close settings',
+  'settings.language': 'Language',
+  'settings.links': 'Listen on',
+  'settings.linksHint': 'Pick the links shown on each song. The play button opens the default.',
+  'settings.defaultLink': 'Default',
+  'settings.search': 'Search',
+  'settings.searchHint': 'Each kind of search can use its own model and settings.',
+  'settings.mode.text': 'Description only',
+  'settings.mode.audio': 'Hum or recording only',
+  'settings.mode.combined': 'Description + audio',
+  'settings.model': 'Model',
+  'settings.temperature': 'Creativity',
+  'settings.maxResults': 'Max results',
+  'settings.thorough': 'Thorough mode',
+  'settings.thoroughHint': 'Hum-only searches use {model}. Slower, but better with melodies.',
+  'settings.reset': 'Reset to defaults',
+};
@@ -0,0 +1,158 @@
+import type { Messages } from "../i18n";
+
+export const ptBR: Messages = {
+  'app.tagline': 'Descoberta musical com IA',
+  'tabs.search': 'Buscar',
+  'tabs.favorites': 'Favoritas',
+  'tabs.history': 'Histórico',
+
+  'search.placeholder': "ex.: 'Aquela música triste de piano do final do filme A Origem' ou 'Letra sobre cair no fundo do poço'...",
+  'search.submit': 'Encontrar música',
+  'search.analyzing': 'Analisando...',
+  'search.clearAll': 'Limpar tudo',
+  'search.cancelAndClear': 'Cancelar e limpar',
+  'search.results': 'Resultados',
+  'search.noResults': 'Nenhum resultado encontrado ainda.',
+  'search.emptyHint': 'Os resultados da busca aparecem aqui.',
+  'search.missingInput': 'Descreva uma música ou grave um áudio primeiro.',
+  'search.unexpectedError': 'Ocorreu um erro inesperado.',
+  'search.retrying': 'Deu um problema, tentando de novo ({attempt} de {total})...',
+
+  'error.apiKey': 'A chave da API do Gemini no servidor de busca está faltando ou é inválida. Quem administra este app precisa conferir a GEMINI_API_KEY.',
+  'error.quota': 'Muitas buscas agora. Espere um pouco e tente de novo.',
+  'error.retryIn': 'Você pode buscar de novo em {seconds}s.',
+  'error.offline': 'Não foi possível falar com o servidor de busca. Verifique sua conexão com a internet.',
+  'error.payloadTooLarge': 'A gravação é grande demais para enviar. Corte só a parte que você quer identificar ou grave um trecho menor.',
+  'error.textTooLong': 'A descrição é longa demais. Encurte-a e busque de novo.',
+  'error.unsupportedAudio': 'O servidor de busca não aceita esse formato de áudio. Grave de novo ou envie um arquivo mp3, m4a, wav, ogg ou webm.',
+  'error.invalidRequest': 'O servidor de busca recusou esta requisição. Recarregar o app pode resolver.',
+  'error.safetyBlock': 'O filtro de segurança bloqueou esta busca. Tente descrever a música de outro jeito.',
+  'error.malformedResponse': 'A busca devolveu resultados que não conseguimos ler.',
+  'error.unavailable': 'O serviço de busca está ocupado ou fora do ar agora.',
+  'error.microphoneDenied': 'O acesso ao microfone está bloqueado. Libere nas configurações do site no navegador ou envie uma gravação.',
+  'error.microphoneUnavailable': 'Nenhum microfone funcionando foi encontrado. Conecte um ou envie uma gravação.',
+  'error.action.retry': 'Tentar de novo',
+  'error.action.editText': 'Editar descrição',
+  'error.action.discardAudio': 'Descartar gravação',
+  'error.action.uploadAudio': 'Enviar um arquivo',
+  'error.diagnostics': 'Código {code} · {count} tentativa|Código {code} · {count} tentativas',
+
+  'queue.pending': '{count} busca esperando conexão|{count} buscas esperando conexão',
+  'queue.hint': 'Elas rodam sozinhas quando você voltar a ficar online, e você recebe uma notificação com os resultados.',
+  'queue.remove': 'Remover da fila',
+  'queue.notificationTitle': 'Sua busca salva terminou',
+  'queue.notificationBody': '{query}: {count} resultado|{query}: {count} resultados',
+
+  'refine.title': 'Não é bem isso?',
+  'refine.placeholder': "ex.: 'era uma cantora, por volta de 2005'",
+  'refine.submit': 'Refinar resultados',
+  'refine.rejectedCount': '{count} marcada como "não é essa". Ela não será sugerida de novo.|{count} marcadas como "não é essa". Elas não serão sugeridas de novo.',
+  'refine.hint': 'Marque os resultados errados como "não é essa" ou descreva o que era diferente.',
+
+  'song.matchType.Texto': 'Texto',
+  'song.matchType.Melodia': 'Melodia',
+  'song.matchType.Contexto': 'Contexto',
+  'song.confidence': '{confidence}% de chance',
+  'song.unverified': 'Não verificada',
+  'song.unverifiedHint': 'Não encontramos esta música no catálogo. Talvez ela não exista.',
+  'song.addFavorite': 'Adicionar às favoritas',
+  'song.removeFavorite': 'Remover das favoritas',
+  'song.openOn': 'Abrir no {service}',
+  'song.notIt': 'Não é essa',
+  'song.undoNotIt': 'Desfazer "não é essa"',
+  'song.guess': 'Palpite',
+  'song.guessHint': 'Baixa confiança. O modelo não tem certeza desta.',
+  'song.details': 'Por que esta música',
+  'song.evidence.lyrics': 'Letra',
+  'song.evidence.scene': 'Cena',
+  'song.evidence.melody': 'Melodia',
+  'song.evidence.audioRange': 'Trecho {start}–{end} do seu áudio',
+
+  'recorder.start': 'Começar a gravar',
+  'recorder.stop': 'Parar de gravar',
+  'recorder.upload': 'Enviar um arquivo de áudio',
+  'recorder.captured': 'Áudio capturado',
+  'recorder.discard': 'Descartar',
+  'recorder.idleHint': 'Toque para cantarolar, cantar ou assobiar — ou solte um áudio aqui',
+  'recorder.dropHint': 'Solte para usar este áudio',
+  'recorder.recordingHint': 'Gravando... Cante com clareza!',
+  'recorder.processing': 'Limpando o áudio...',
+  'recorder.ready': 'Pronto para buscar',
+  'recorder.unreadableFile': 'Não foi possível ler esse arquivo.',
+  'recorder.tooQuiet': 'Mal dá para ouvir. Chegue mais perto ou cante mais alto.',
+  'recorder.clipping': 'Alto demais, o áudio está distorcendo. Afaste-se um pouco.',
+  'trimmer.start': 'Início',
+  'trimmer.end': 'Fim',
+  'trimmer.summary': '{start} – {end} · enviando {length}',
+  'trimmer.maxLength': ' (máx. {seconds}s)',
+
+  'audioFile.unplayable': 'Não foi possível tocar este arquivo. Ele pode estar corrompido ou num formato não suportado.',
+  'audioFile.unsupported': 'Tipo de arquivo não suportado. Use mp3, m4a, wav, ogg ou webm.',
+  'audioFile.tooLarge': 'Arquivo grande demais (máx. {megabytes} MB). Tente um trecho menor.',
+  'audioFile.tooLong': 'Trecho longo demais (máx. {seconds} segundos). Corte só a parte que você quer identificar.',
+
+  'history.title': 'Buscas recentes',
+  'history.empty': 'Suas buscas anteriores aparecem aqui.',
+  'history.clear': 'Limpar histórico',
+  'history.audioOnly': 'Só áudio',
+  'history.audio': 'Áudio',
+  'history.resultCount': '{count} resultado|{count} resultados',
+  'history.rerun': 'Buscar de novo',
+  'history.remove': 'Remover do histórico',
+
+  'library.title': 'Sua biblioteca',
+  'library.all': 'Todas ({count})',
+  'library.newPlaylist': 'Nova playlist',
+  'library.playlistName': 'Nome da playlist',
+  'library.rename': 'Renomear',
+  'library.renamePrompt': 'Renomear playlist',
+  'library.delete': 'Excluir',
+  'library.deleteConfirm': 'Excluir "{name}"? As músicas continuam na sua biblioteca.',
+  'library.import': 'Importar',
+  'library.exportPlaylist': 'Exportar "{name}"',
+  'library.exportLibrary': 'Exportar biblioteca',
+  'library.imported': '{count} música importada|{count} músicas importadas',
+  'library.importedDuplicates': '{count} já estava na sua biblioteca|{count} já estavam na sua biblioteca',
+  'library.importedSkipped': '{count} ignorada por não ter artista ou título|{count} ignoradas por não terem artista ou título',
+  'library.importFailed': 'Não foi possível importar esse arquivo.',
+  'library.filterPlaceholder': 'Filtrar por título, artista, tag ou nota',
+  'library.sort.addedAt': 'Adicionadas recentemente',
+  'library.sort.titulo': 'Título',
+  'library.sort.artista': 'Artista',
+  'library.sort.confidence': 'Confiança',
+  'library.empty': 'Você ainda não adicionou nenhuma música às favoritas.',
+  'library.emptyPlaylist': 'Esta playlist está vazia. Abra os detalhes de uma música para adicioná-la.',
+  'library.noMatches': 'Nada corresponde a esse filtro.',
+  'library.added': 'Adicionada em {date}',
+  'library.edit': 'Editar',
+  'library.close': 'Fechar',
+  'library.tagsPlaceholder': 'Tags, separadas por vírgula',
+  'library.notesPlaceholder': 'Notas: onde você ouviu, quem ela lembra...',
+
+  'transfer.format.json': 'Backup JSON',
+  'transfer.format.csv': 'Planilha CSV',
+  'transfer.format.m3u': 'Playlist M3U',
+  'transfer.format.xspf': 'Playlist XSPF',
+  'transfer.csvEmpty': 'O arquivo CSV está vazio.',
+  'transfer.csvColumns': 'O CSV precisa das colunas "title" e "artist".',
+  'transfer.xspfInvalid': 'O arquivo XSPF não é um XML válido.',
+  'transfer.jsonUnreadable': 'Não foi possível ler o arquivo JSON.',
+
+  'settings.title': 'Configurações',
+  'settings.close': 'Fechar configurações',
+  'settings.language': 'Idioma',
+  'settings.links': 'Ouvir em',
+  'settings.linksHint': 'Escolha os links que aparecem em cada música. O botão de play abre o padrão.',
+  'settings.defaultLink': 'Padrão',
+  'settings.search': 'Busca',
+  'settings.searchHint': 'Cada tipo de busca pode usar seu próprio modelo e ajustes.',
+  'settings.mode.text': 'Só descrição',
+  'settings.mode.audio': 'Só cantarolado ou gravação',
+  'settings.mode.combined': 'Descrição + áudio',
+  'settings.model': 'Modelo',
+  'settings.temperature': 'Criatividade',
+  'settings.maxResults': 'Máx. de resultados',
+  'settings.thorough': 'Modo minucioso',
+  'settings.thoroughHint': 'Buscas só com cantarolado usam o {model}. Mais lentas, mas melhores com melodias.',
+  'settings.reset': 'Restaurar padrões',
+};
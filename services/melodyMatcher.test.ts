@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { PitchPoint, Song } from '../types';
+import { matchMelody, melodyDistance, melodyFingerprint } from './melodyMatcher';
+import { songId } from './songIdentity';
+
+// A contour that holds each note (in semitones) for a few frames, with a
+// short silence between notes
+const contourFor = (semitones: number[]): PitchPoint[] => {
+  const points: PitchPoint[] = [];
+  let time = 0;
+  for (const semitone of semitones) {
+    const frequency = 440 * 2 ** ((semitone - 69) / 12);
+    for (let k = 0; k < 4; k++) points.push({ time: (time += 0.05), frequency });
+    points.push({ time: (time += 0.05), frequency: null });
+  }
+  return points;
+};
+
+const favorite = (titulo: string, fingerprint: number[]): Song => ({
+  id: songId(titulo, 'Someone'),
+  titulo,
+  artista: 'Someone',
+  matchType: 'Melodia',
+  confidence: 90,
+  melodyFingerprint: fingerprint,
+});
+
+// "Ode to Joy": E E F G G F E D C C D E E D D
+const ODE = [64, 64, 65, 67, 67, 65, 64, 62, 60, 60, 62, 64, 64, 62, 62];
+
+describe('melodyDistance', () => {
+  it('finds a hum anywhere inside a longer melody', () => {
+    const reference = melodyFingerprint(contourFor(ODE));
+    expect(melodyDistance(reference.slice(3, 10), reference)).toBe(0);
+  });
+
+  it("doesn't let a repeated note collapse onto one reference step", () => {
+    expect(melodyDistance([0, 0, 0, 0, 0], [5, 0, -3, 7, -2, 4])).toBeGreaterThan(0.3);
+  });
+
+  it('needs the reference to be about as long as the query', () => {
+    expect(melodyDistance([0, 0, 0, 0, 0], [0, 2, 0])).toBe(1);
+  });
+
+  it('forgives a single extra note', () => {
+    expect(melodyDistance([2, 2, 0, 1, -3], [2, 2, 1, -3, 5])).toBeLessThan(0.2);
+  });
+});
+
+describe('matchMelody', () => {
+  it('matches the same tune hummed in another key', () => {
+    const saved = favorite('Ode to Joy', melodyFingerprint(contourFor(ODE)));
+    const hum = contourFor(ODE.slice(2, 11).map(note => note - 5));
+
+    const [match] = matchMelody(hum, [saved]);
+
+    expect(match.id).toBe(saved.id);
+    expect(match.confidence).toBe(100);
+  });
+
+  it('ignores a monotone hum against an unrelated favorite', () => {
+    const saved = favorite('Something else', [5, 0, -3, 7, -2, 4, -5]);
+    const monotone = contourFor([60, 60, 60, 60, 60, 60]);
+
+    expect(matchMelody(monotone, [saved])).toEqual([]);
+  });
+});
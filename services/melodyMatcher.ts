@@ -0,0 +1,145 @@
+import { PitchPoint, Song } from "../types";
+
+// Pitch wobble within a held note stays under this many semitones.
+const NOTE_TOLERANCE = 0.8;
+// A note must span at least this many contour points (~100 ms at 20 Hz).
+const MIN_NOTE_POINTS = 2;
+// Jumps beyond an octave are almost always tracking errors.
+const MAX_INTERVAL = 12;
+// Cost of one mismatched interval saturates here; being off by a major third
+// is as wrong as being off by an octave.
+const MAX_STEP_COST = 4;
+// Fingerprints shorter than this match nearly anything.
+export const MIN_FINGERPRINT_LENGTH = 4;
+export const MIN_MATCH_CONFIDENCE = 70;
+
+const toSemitones = (frequency: number) => 12 * Math.log2(frequency / 440) + 69;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Groups a pitch contour into notes (median pitch in semitones). Unvoiced
+ * points end the current note.
+ */
+export const contourToNotes = (contour: PitchPoint[]): number[] => {
+  const notes: number[] = [];
+  let current: number[] = [];
+
+  const closeNote = () => {
+    if (current.length >= MIN_NOTE_POINTS) notes.push(median(current));
+    current = [];
+  };
+
+  for (const { frequency } of contour) {
+    if (frequency === null || frequency <= 0) {
+      closeNote();
+      continue;
+    }
+    const semitone = toSemitones(frequency);
+    if (current.length > 0 && Math.abs(semitone - median(current)) > NOTE_TOLERANCE) {
+      closeNote();
+    }
+    current.push(semitone);
+  }
+  closeNote();
+
+  return notes;
+};
+
+/**
+ * Key-invariant melody fingerprint: the interval in semitones between
+ * successive notes. Humming the same tune in another key, or at another
+ * tempo, gives the same sequence.
+ */
+export const melodyFingerprint = (contour: PitchPoint[]): number[] => {
+  const notes = contourToNotes(contour);
+  const intervals: number[] = [];
+  for (let i = 1; i < notes.length; i++) {
+    const interval = Math.round(notes[i] - notes[i - 1]);
+    intervals.push(Math.max(-MAX_INTERVAL, Math.min(MAX_INTERVAL, interval)));
+  }
+  return intervals;
+};
+
+// Up/down/repeat rendering of a fingerprint, handy for debugging matches.
+export const parsonsCode = (fingerprint: number[]) =>
+  '*' + fingerprint.map(i => (i > 0 ? 'U' : i < 0 ? 'D' : 'R')).join('');
+
+// Each extra or skipped note (a non-diagonal DTW step) costs this on top of
+// the interval mismatch, so a hum can't collapse onto one reference note.
+const WARP_PENALTY = 0.5;
+// The matched stretch of the reference must be at least this long relative
+// to the query; a five-note hum can't match a single saved interval.
+const MIN_SPAN_RATIO = 0.75;
+
+/**
+ * Subsequence DTW: how well the query fits anywhere inside the reference,
+ * as an average per-interval cost from 0 (identical) to 1. The query is
+ * usually a short hum of a longer saved melody, so the reference may start
+ * and end anywhere. Warping absorbs the odd split or dropped note, at a
+ * price.
+ */
+export const melodyDistance = (query: number[], reference: number[]): number => {
+  const n = query.length;
+  const m = reference.length;
+  if (n === 0 || m === 0) return 1;
+
+  // Row 0 is free everywhere: the match may start at any reference step.
+  // start[j] is where in the reference the best path into cell j began.
+  let previous = new Float64Array(m + 1);
+  let previousStart = new Int32Array(m + 1);
+  for (let i = 1; i <= n; i++) {
+    const current = new Float64Array(m + 1).fill(Infinity);
+    const currentStart = new Int32Array(m + 1);
+    for (let j = 1; j <= m; j++) {
+      const cost = Math.min(Math.abs(query[i - 1] - reference[j - 1]), MAX_STEP_COST) / MAX_STEP_COST;
+      const diagonal = previous[j - 1];
+      // Only a diagonal step may leave row 0; anything else would let the
+      // query begin "before" the reference
+      const vertical = i > 1 ? previous[j] + WARP_PENALTY : Infinity;
+      const horizontal = current[j - 1] + WARP_PENALTY;
+
+      if (diagonal <= vertical && diagonal <= horizontal) {
+        current[j] = cost + diagonal;
+        currentStart[j] = i === 1 ? j : previousStart[j - 1];
+      } else if (vertical <= horizontal) {
+        current[j] = cost + vertical;
+        currentStart[j] = previousStart[j];
+      } else {
+        current[j] = cost + horizontal;
+        currentStart[j] = currentStart[j - 1];
+      }
+    }
+    previous = current;
+    previousStart = currentStart;
+  }
+
+  const minSpan = Math.ceil(n * MIN_SPAN_RATIO);
+  let best = Infinity;
+  for (let j = 1; j <= m; j++) {
+    if (j - previousStart[j] + 1 >= minSpan) best = Math.min(best, previous[j]);
+  }
+  return Math.min(1, best / n);
+};
+
+/**
+ * Matches a recorded contour against songs that carry a saved melody
+ * fingerprint. Returns the plausible ones as 'Melodia' results, best first.
+ */
+export const matchMelody = (contour: PitchPoint[], catalog: Song[]): Song[] => {
+  const query = melodyFingerprint(contour);
+  if (query.length < MIN_FINGERPRINT_LENGTH) return [];
+
+  return catalog
+    .filter(song => (song.melodyFingerprint?.length ?? 0) >= MIN_FINGERPRINT_LENGTH)
+    .map(song => ({
+      ...song,
+      matchType: 'Melodia' as const,
+      confidence: Math.round(100 * (1 - melodyDistance(query, song.melodyFingerprint!))),
+    }))
+    .filter(song => song.confidence >= MIN_MATCH_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+};
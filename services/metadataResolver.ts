@@ -0,0 +1,47 @@
+import { Song } from "../types";
+import { createMusicBrainzResolver } from "./musicBrainzResolver";
+import { createFixtureResolver } from "./fixtureResolver";
+
+export interface SongMetadata {
+  album?: string;
+  releaseYear?: number;
+  durationMs?: number;
+  coverArtUrl?: string;
+  isrc?: string;
+  musicbrainzId?: string;
+}
+
+export interface ResolveOptions {
+  signal?: AbortSignal;
+}
+
+// Looks a candidate up in a real catalog. Resolves null when the song can't
+// be found, which marks it as unverified (possibly invented by the model).
+export interface MetadataResolver {
+  name: string;
+  resolve(song: Song, options?: ResolveOptions): Promise<SongMetadata | null>;
+}
+
+export const applyMetadata = (song: Song, metadata: SongMetadata | null): Song => {
+  if (!metadata) return { ...song, verified: false };
+  const { isrc, musicbrainzId, ...details } = metadata;
+  return {
+    ...song,
+    ...details,
+    verified: true,
+    externalIds: {
+      ...song.externalIds,
+      ...(isrc && { isrc }),
+      ...(musicbrainzId && { musicbrainzId }),
+    },
+  };
+};
+
+// Mirrors createSearchProvider: the offline mock search pairs with the
+// fixture resolver so nothing touches the network.
+export const createMetadataResolver = (kind: string | undefined = process.env.SEARCH_PROVIDER): MetadataResolver => {
+  if (kind === 'mock') {
+    return createFixtureResolver();
+  }
+  return createMusicBrainzResolver();
+};
@@ -0,0 +1,98 @@
+import { Song } from "../types";
+import { MOCK_CATALOG, CatalogEntry } from "./fixtures/mockCatalog";
+import { MusicSearchProvider, SearchOptions, SearchQuery, rejectedSongIds } from "./searchProvider";
+import { songId } from "./songIdentity";
+
+const MAX_RESULTS = 3;
+
+const tokenize = (text: string) =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Cheap, stable hash so the same recording always "matches" the same songs.
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const toSong = (entry: CatalogEntry, matchType: Song['matchType'], confidence: number): Song => ({
+  id: songId(entry.titulo, entry.artista),
+  titulo: entry.titulo,
+  artista: entry.artista,
+  matchType,
+  confidence,
+  description: entry.description,
+  evidence: entry.evidence,
+});
+
+const searchByText = (catalog: CatalogEntry[], text: string, matchType: Song['matchType']): Song[] => {
+  const tokens = new Set(tokenize(text));
+  return catalog
+    .map(entry => {
+      const haystack = [...entry.keywords, ...tokenize(entry.titulo), ...tokenize(entry.artista)];
+      const hits = haystack.filter(word => tokens.has(word)).length;
+      return { entry, hits };
+    })
+    .filter(({ hits }) => hits > 0)
+    .sort((a, b) => b.hits - a.hits || a.entry.titulo.localeCompare(b.entry.titulo))
+    .slice(0, MAX_RESULTS)
+    .map(({ entry, hits }) => toSong(entry, matchType, Math.min(95, 40 + hits * 15)));
+};
+
+const searchByAudio = (catalog: CatalogEntry[], audioBase64: string): Song[] => {
+  const start = hashString(audioBase64) % catalog.length;
+  return Array.from({ length: Math.min(MAX_RESULTS, catalog.length) }, (_, i) =>
+    toSong(catalog[(start + i) % catalog.length], 'Melodia', 80 - i * 20)
+  );
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+const findSongs = (catalog: CatalogEntry[], { text, audioBase64, refinements = [] }: SearchQuery): Song[] => {
+  // Refinements search again without the rejected songs, with the extra
+  // details folded into the description
+  if (refinements.length > 0) {
+    const rejected = rejectedSongIds(refinements);
+    catalog = catalog.filter(entry => !rejected.has(songId(entry.titulo, entry.artista)));
+    text = [text, ...refinements.map(turn => turn.feedback)].join(' ');
+    if (catalog.length === 0) return [];
+  }
+
+  if (audioBase64) {
+    const melodic = searchByAudio(catalog, audioBase64);
+    if (!text.trim()) return melodic;
+    // Text narrows down the melodic candidates, like the Gemini prompt does.
+    const contextual = searchByText(catalog, text, 'Contexto');
+    return contextual.length > 0 ? contextual : melodic;
+  }
+
+  return searchByText(catalog, text, 'Texto');
+};
+
+interface MockProviderOptions {
+  catalog?: CatalogEntry[];
+  // Simulated latency before each result, so loading and streaming states
+  // are visible during UI work.
+  delayMs?: number;
+}
+
+export const createMockProvider = ({ catalog = MOCK_CATALOG, delayMs = 0 }: MockProviderOptions = {}): MusicSearchProvider => ({
+  name: 'mock',
+  async *searchMusic(query: SearchQuery, { signal, generation }: SearchOptions = {}) {
+    signal?.throwIfAborted();
+    for (const song of findSongs(catalog, query).slice(0, generation?.maxResults)) {
+      if (delayMs > 0) await sleep(delayMs, signal);
+      signal?.throwIfAborted();
+      yield song;
+    }
+  },
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMusicBrainzResolver } from './musicBrainzResolver';
+import { songId } from './songIdentity';
+
+const TIME = {
+  id: songId('Time', 'Hans Zimmer'),
+  titulo: 'Time',
+  artista: 'Hans Zimmer',
+  matchType: 'Contexto' as const,
+  confidence: 92,
+};
+
+const RECORDINGS = {
+  recordings: [{
+    id: 'mb-time',
+    score: 100,
+    title: 'Time',
+    length: 275000,
+    'artist-credit': [{ name: 'Hans Zimmer' }],
+    releases: [{ id: 'rel-1', title: 'Inception', date: '2010-07-13', status: 'Official' }],
+  }],
+};
+
+const fakeFetch = () =>
+  vi.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+    init?.signal?.throwIfAborted();
+    return new Response(JSON.stringify(RECORDINGS));
+  });
+
+describe('MusicBrainz resolver', () => {
+  it('looks a song up once and answers repeats from the cache', async () => {
+    const fetchImpl = fakeFetch();
+    const resolver = createMusicBrainzResolver({ fetchImpl });
+
+    const first = await resolver.resolve(TIME);
+    const second = await resolver.resolve(TIME);
+
+    expect(first?.album).toBe('Inception');
+    expect(second).toEqual(first);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts over for a live caller when the cached lookup was aborted', async () => {
+    const fetchImpl = fakeFetch();
+    const resolver = createMusicBrainzResolver({ fetchImpl });
+    const abandoned = new AbortController();
+
+    const first = resolver.resolve(TIME, { signal: abandoned.signal });
+    abandoned.abort();
+    const second = resolver.resolve(TIME, { signal: new AbortController().signal });
+
+    await expect(first).rejects.toThrow();
+    expect((await second)?.musicbrainzId).toBe('mb-time');
+  });
+});
@@ -0,0 +1,114 @@
+import { Song } from "../types";
+import { MetadataResolver, ResolveOptions, SongMetadata } from "./metadataResolver";
+import { normalizeKey } from "./songIdentity";
+
+const API_URL = 'https://musicbrainz.org/ws/2/recording';
+const COVER_ART_URL = 'https://coverartarchive.org/release';
+// MusicBrainz allows one request per second per client.
+const MIN_INTERVAL_MS = 1100;
+// Search scores are 0-100; below this the hit is usually a different song.
+const MIN_SCORE = 80;
+
+// The parts of the recording search response we read.
+interface MbRecording {
+  id: string;
+  score: number;
+  title: string;
+  length?: number;
+  isrcs?: string[];
+  'artist-credit'?: { name: string }[];
+  releases?: { id: string; title: string; date?: string; status?: string }[];
+}
+
+const escapeLucene = (value: string) => value.replace(/([+\-&|!(){}[\]^"~*?:\\/])/g, '\\$1');
+
+const sameText = (a: string, b: string) => {
+  const x = normalizeKey(a);
+  const y = normalizeKey(b);
+  return x === y || (x.length > 3 && y.includes(x)) || (y.length > 3 && x.includes(y));
+};
+
+// Prefer the earliest official release: that's the album people know.
+const pickRelease = (recording: MbRecording) =>
+  [...(recording.releases ?? [])]
+    .sort((a, b) => (a.status === 'Official' ? 0 : 1) - (b.status === 'Official' ? 0 : 1) || (a.date ?? '9999').localeCompare(b.date ?? '9999'))[0];
+
+const toMetadata = (recording: MbRecording): SongMetadata => {
+  const release = pickRelease(recording);
+  const year = release?.date ? parseInt(release.date.slice(0, 4), 10) : NaN;
+  return {
+    musicbrainzId: recording.id,
+    isrc: recording.isrcs?.[0],
+    durationMs: recording.length,
+    album: release?.title,
+    releaseYear: Number.isFinite(year) ? year : undefined,
+    coverArtUrl: release ? `${COVER_ART_URL}/${release.id}/front-250` : undefined,
+  };
+};
+
+interface MusicBrainzResolverOptions {
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Resolves songs against the MusicBrainz recording search. Requests are
+ * queued to respect the rate limit and results are cached per song id for
+ * the session, so re-running a search doesn't hit the API again.
+ */
+export const createMusicBrainzResolver = ({ fetchImpl = fetch }: MusicBrainzResolverOptions = {}): MetadataResolver => {
+  // Each lookup keeps the signal it was started with, so a later caller
+  // isn't handed a lookup someone else already cancelled.
+  const cache = new Map<string, { pending: Promise<SongMetadata | null>; signal?: AbortSignal }>();
+  let queue: Promise<unknown> = Promise.resolve();
+  let lastRequestAt = 0;
+
+  const throttled = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(async () => {
+      const wait = lastRequestAt + MIN_INTERVAL_MS - Date.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+      lastRequestAt = Date.now();
+      return task();
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const lookup = async (song: Song, signal?: AbortSignal): Promise<SongMetadata | null> => {
+    const query = `recording:"${escapeLucene(song.titulo)}" AND artist:"${escapeLucene(song.artista)}"`;
+    const url = `${API_URL}?query=${encodeURIComponent(query)}&limit=5&fmt=json`;
+
+    const response = await throttled(() => {
+      signal?.throwIfAborted();
+      return fetchImpl(url, { headers: { Accept: 'application/json' }, signal });
+    });
+    if (!response.ok) {
+      throw new Error(`MusicBrainz lookup failed (${response.status})`);
+    }
+
+    const { recordings = [] } = (await response.json()) as { recordings?: MbRecording[] };
+    const match = recordings.find(recording =>
+      recording.score >= MIN_SCORE
+      && sameText(recording.title, song.titulo)
+      && (recording['artist-credit'] ?? []).some(credit => sameText(credit.name, song.artista) || sameText(song.artista, credit.name))
+    );
+    return match ? toMetadata(match) : null;
+  };
+
+  return {
+    name: 'musicbrainz',
+    resolve(song: Song, { signal }: ResolveOptions = {}) {
+      const cached = cache.get(song.id);
+      if (cached && !(cached.signal?.aborted && !signal?.aborted)) return cached.pending;
+
+      const entry: { pending: Promise<SongMetadata | null>; signal?: AbortSignal } = { pending: lookup(song, signal), signal };
+      cache.set(song.id, entry);
+      // Failures (offline, aborted, rate limited) shouldn't stick; only
+      // definitive answers are cached, and those no longer depend on a signal.
+      entry.pending.then(
+        () => { entry.signal = undefined; },
+        () => { if (cache.get(song.id) === entry) cache.delete(song.id); }
+      );
+      return entry.pending;
+    },
+  };
+};
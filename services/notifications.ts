@@ -0,0 +1,31 @@
+// System notifications for searches that finish while the user is away.
+// Everything here quietly does nothing where notifications aren't supported
+// or were refused.
+
+const supported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+/** Asks once; a decision the user already made is left alone. */
+export const requestNotificationPermission = async () => {
+  if (!supported() || Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch (e) {
+    console.warn("Notification permission request failed", e);
+  }
+};
+
+export const notify = async (title: string, body: string) => {
+  if (!supported() || Notification.permission !== 'granted') return;
+  const options: NotificationOptions = { body, icon: '/icon.svg' };
+  try {
+    // Mobile browsers only show notifications through the service worker
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(title, options);
+    } else {
+      new Notification(title, options);
+    }
+  } catch (e) {
+    console.warn("Couldn't show notification", e);
+  }
+};
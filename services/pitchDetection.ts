@@ -0,0 +1,87 @@
+import { PitchPoint } from "../types";
+
+// Human humming/singing/whistling range; outside it we're usually
+// tracking noise or a harmonic.
+const MIN_FREQUENCY = 70;
+const MAX_FREQUENCY = 1000;
+// Frames quieter than this are treated as unvoiced.
+const MIN_RMS = 0.01;
+// How periodic a frame must be (0-1) to trust its pitch.
+const MIN_CLARITY = 0.6;
+
+export const rmsLevel = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+export const toDecibels = (level: number) => (level > 0 ? 20 * Math.log10(level) : -Infinity);
+
+/**
+ * Estimates the fundamental frequency (F0) of one frame with normalized
+ * autocorrelation. Returns null for silent or unpitched frames.
+ *
+ * Takes the first lag whose correlation gets close to the best one rather
+ * than the best itself, which avoids most octave-down errors.
+ */
+export const detectPitch = (samples: Float32Array, sampleRate: number): number | null => {
+  if (rmsLevel(samples) < MIN_RMS) return null;
+
+  const minLag = Math.floor(sampleRate / MAX_FREQUENCY);
+  const maxLag = Math.min(samples.length - 2, Math.ceil(sampleRate / MIN_FREQUENCY));
+  if (maxLag <= minLag) return null;
+
+  const correlations = new Float32Array(maxLag + 2);
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i + lag < samples.length; i++) {
+      sum += samples[i] * samples[i + lag];
+      energyA += samples[i] * samples[i];
+      energyB += samples[i + lag] * samples[i + lag];
+    }
+    const value = energyA && energyB ? sum / Math.sqrt(energyA * energyB) : 0;
+    correlations[lag] = value;
+    if (lag <= maxLag) best = Math.max(best, value);
+  }
+
+  if (best < MIN_CLARITY) return null;
+
+  for (let lag = minLag + 1; lag <= maxLag; lag++) {
+    const value = correlations[lag];
+    const isPeak = value >= correlations[lag - 1] && value >= correlations[lag + 1];
+    if (isPeak && value >= best * 0.9) {
+      // Parabolic interpolation between neighbouring lags for sub-sample accuracy
+      const a = correlations[lag - 1];
+      const c = correlations[lag + 1];
+      const denominator = a - 2 * value + c;
+      const shift = denominator !== 0 ? (0.5 * (a - c)) / denominator : 0;
+      return sampleRate / (lag + shift);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Runs detectPitch over a whole clip, one point per hop. Used for audio that
+ * wasn't recorded live (uploads, history).
+ */
+export const extractPitchContour = (
+  samples: Float32Array,
+  sampleRate: number,
+  frameSize: number = 1024,
+  hopSeconds: number = 0.05
+): PitchPoint[] => {
+  const hop = Math.max(1, Math.round(hopSeconds * sampleRate));
+  const contour: PitchPoint[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hop) {
+    contour.push({
+      time: start / sampleRate,
+      frequency: detectPitch(samples.subarray(start, start + frameSize), sampleRate),
+    });
+  }
+  return contour;
+};
@@ -0,0 +1,76 @@
+import { Song } from "../types";
+import { AppError, toAppError } from "./appErrors";
+import { MusicSearchProvider, SearchOptions, SearchQuery } from "./searchProvider";
+
+export interface RetryPolicy {
+  // Total tries, the first one included
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 3, baseDelayMs: 500, maxDelayMs: 8000 };
+
+/**
+ * Exponential backoff with full jitter: a random wait of up to
+ * base * 2^retry, capped, so clients that failed together don't all come
+ * back at the same moment.
+ */
+export const backoffDelay = (retry: number, policy: RetryPolicy, random: () => number = Math.random) =>
+  Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry));
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// A rate limit that lifts later than we'd ever wait is reported instead
+const shouldRetry = (error: AppError, tries: number, policy: RetryPolicy) =>
+  error.transient && tries < policy.attempts && (error.retryAfterMs ?? 0) <= policy.maxDelayMs;
+
+/**
+ * Wraps a provider so transient failures (offline, overloaded, rate
+ * limited, unreadable response) are retried with backoff. Only a search
+ * that failed before its first song is retried; songs already shown can't
+ * be taken back. Errors come out as AppErrors carrying the attempt count.
+ */
+export const withRetries = (
+  remote: MusicSearchProvider,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): MusicSearchProvider => ({
+  name: remote.name,
+  async *searchMusic(query: SearchQuery, options?: SearchOptions): AsyncGenerator<Song> {
+    for (let tries = 1; ; tries++) {
+      let yielded = false;
+      try {
+        for await (const song of remote.searchMusic(query, options)) {
+          yielded = true;
+          yield song;
+        }
+        return;
+      } catch (thrown) {
+        if (options?.signal?.aborted) throw thrown;
+        const error = toAppError(thrown);
+        if (error.code === 'unknown') console.error("Search failed:", thrown);
+        error.attempts = tries;
+        if (yielded || !shouldRetry(error, tries, policy)) throw error;
+
+        const delayMs = Math.max(backoffDelay(tries - 1, policy), error.retryAfterMs ?? 0);
+        options?.onRetry?.(tries + 1, delayMs);
+        await sleep(delayMs, options?.signal);
+      }
+    }
+  },
+});
@@ -0,0 +1,70 @@
+import { GenerationSettings, PitchPoint, Song } from "../types";
+import { createApiProvider } from "./apiProvider";
+import { createMockProvider } from "./mockProvider";
+import { songId } from "./songIdentity";
+import { Locale } from "./i18n";
+
+export interface SearchQuery {
+  text: string;
+  audioBase64: string | null;
+  // Format of audioBase64, e.g. "audio/mp3"; see services/audioFiles.ts.
+  mimeType: string | null;
+  // F0 trace of the audio, for local melody matching. Never sent to the model.
+  pitchContour?: PitchPoint[];
+  // UI language; the model writes descriptions in it. Defaults to English.
+  locale?: Locale;
+  // Follow-up turns after the first search, oldest first. Present only when
+  // refining; the last turn is the one being asked now.
+  refinements?: RefinementTurn[];
+}
+
+// A result the user saw, as sent back to the model.
+export interface CandidateRef {
+  titulo: string;
+  artista: string;
+  // Marked "not it" by the user.
+  rejected?: boolean;
+}
+
+export interface RefinementTurn {
+  // The results on screen when the user asked for this refinement.
+  candidates: CandidateRef[];
+  // What the user added, e.g. "it was a female singer, around 2005". May be
+  // empty when the turn only rejects candidates.
+  feedback: string;
+}
+
+export const MAX_REFINEMENTS = 10;
+
+/** Every candidate the user has rejected so far, as song ids. */
+export const rejectedSongIds = (refinements: RefinementTurn[] = []) =>
+  new Set(refinements.flatMap(turn => turn.candidates.filter(c => c.rejected).map(c => songId(c.titulo, c.artista))));
+
+export interface SearchOptions {
+  // Aborting stops the underlying request; the iterator then throws.
+  signal?: AbortSignal;
+  // Model, temperature and result cap for this search (see
+  // services/searchSettings.ts). Providers fall back to their defaults.
+  generation?: GenerationSettings;
+  // Called before a failed attempt is retried (see services/retry.ts).
+  onRetry?: (attempt: number, delayMs: number) => void;
+}
+
+// Anything App.tsx can search through: the server-side Gemini proxy, the
+// offline fixture catalog, or a fake handed in by a test. The server itself
+// uses the Gemini provider directly.
+export interface MusicSearchProvider {
+  name: string;
+  // Yields candidates as soon as they are parsed. A song may be yielded again
+  // with the same id when a better-scored duplicate arrives.
+  searchMusic(query: SearchQuery, options?: SearchOptions): AsyncIterable<Song>;
+}
+
+// Pick the provider from SEARCH_PROVIDER (see vite.config.ts). Anything other
+// than "mock" goes through the /api/search proxy.
+export const createSearchProvider = (kind: string | undefined = process.env.SEARCH_PROVIDER): MusicSearchProvider => {
+  if (kind === 'mock') {
+    return createMockProvider();
+  }
+  return createApiProvider();
+};
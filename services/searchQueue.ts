@@ -0,0 +1,77 @@
+import { QueuedSearch, Song } from "../types";
+import { MusicSearchProvider, SearchOptions, SearchQuery } from "./searchProvider";
+import { QUEUE_STORE, openDatabase, promisifyRequest } from "./db";
+import { base64ToBlob, blobToBase64 } from "./audioEncoding";
+import { isLocale } from "./i18n";
+import { toAppError } from "./appErrors";
+
+export const enqueueSearch = async ({ text, audioBase64, mimeType, pitchContour, locale }: SearchQuery): Promise<QueuedSearch> => {
+  const entry: QueuedSearch = {
+    id: crypto.randomUUID(),
+    text,
+    // Stored as a Blob, like history, rather than a base64 string a third larger
+    audio: audioBase64 ? base64ToBlob(audioBase64, mimeType) : null,
+    mimeType,
+    pitchContour,
+    locale,
+    queuedAt: Date.now(),
+  };
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(QUEUE_STORE, 'readwrite').objectStore(QUEUE_STORE).put(entry));
+  return entry;
+};
+
+/** Oldest first, the order they'll run in. */
+export const listQueuedSearches = async (): Promise<QueuedSearch[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).index('queuedAt');
+  return promisifyRequest(index.getAll() as IDBRequest<QueuedSearch[]>);
+};
+
+export const removeQueuedSearch = async (id: string) => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(QUEUE_STORE, 'readwrite').objectStore(QUEUE_STORE).delete(id));
+};
+
+export const queuedToQuery = async (entry: QueuedSearch): Promise<SearchQuery> => {
+  const audioBase64 = entry.audio ? await blobToBase64(entry.audio) : null;
+  return {
+    text: entry.text,
+    audioBase64,
+    mimeType: audioBase64 ? entry.mimeType : null,
+    pitchContour: entry.pitchContour,
+    locale: entry.locale && isLocale(entry.locale) ? entry.locale : undefined,
+  };
+};
+
+/**
+ * Runs the queued searches in order, handing each one's results to
+ * onResults before removing it from the queue. Stops, keeping the rest, as
+ * soon as one fails in a way that retrying later could fix (still offline,
+ * service down); searches that can't succeed at all are dropped.
+ */
+export const drainSearchQueue = async (
+  provider: MusicSearchProvider,
+  optionsFor: (query: SearchQuery) => SearchOptions,
+  onResults: (entry: QueuedSearch, query: SearchQuery, results: Song[]) => Promise<void>
+) => {
+  for (const entry of await listQueuedSearches()) {
+    const query = await queuedToQuery(entry);
+    const results: Song[] = [];
+    try {
+      for await (const song of provider.searchMusic(query, optionsFor(query))) {
+        const index = results.findIndex(s => s.id === song.id);
+        if (index >= 0) results[index] = song;
+        else results.push(song);
+      }
+    } catch (thrown) {
+      const error = toAppError(thrown);
+      if (error.transient) return;
+      console.error("Dropping queued search that can't succeed:", error.code);
+      await removeQueuedSearch(entry.id);
+      continue;
+    }
+    await onResults(entry, query, results);
+    await removeQueuedSearch(entry.id);
+  }
+};
@@ -0,0 +1,80 @@
+import { GenerationSettings, SearchMode, SearchSettings } from "../types";
+
+const STORAGE_KEY = 'jacareSearchSettings';
+
+export const SEARCH_MODES: SearchMode[] = ['text', 'audio', 'combined'];
+
+// Only these reach the API; anything else from a client or a stale setting
+// falls back to the default.
+export const AVAILABLE_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+export const DEFAULT_MODEL = 'gemini-2.5-flash';
+// Used for hums in thorough mode: slower, but much better at melodies.
+export const THOROUGH_MODEL = 'gemini-2.5-pro';
+
+export const TEMPERATURE_RANGE = { min: 0, max: 1 };
+export const MAX_RESULTS_RANGE = { min: 1, max: 10 };
+
+export const DEFAULT_GENERATION: GenerationSettings = { model: DEFAULT_MODEL, temperature: 0.4, maxResults: 5 };
+
+export const defaultSearchSettings = (): SearchSettings => ({
+  modes: { text: { ...DEFAULT_GENERATION }, audio: { ...DEFAULT_GENERATION }, combined: { ...DEFAULT_GENERATION } },
+  thorough: false,
+});
+
+export const searchModeOf = ({ text, audioBase64 }: { text: string; audioBase64: string | null }): SearchMode =>
+  audioBase64 ? (text.trim() ? 'combined' : 'audio') : 'text';
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+/** Repairs one mode's settings; also used by the server on client input. */
+export const sanitizeGeneration = (raw: unknown): GenerationSettings => {
+  const record = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const { model, temperature, maxResults } = record;
+  return {
+    model: typeof model === 'string' && AVAILABLE_MODELS.includes(model) ? model : DEFAULT_GENERATION.model,
+    temperature: typeof temperature === 'number' && Number.isFinite(temperature)
+      ? Math.round(clamp(temperature, TEMPERATURE_RANGE) * 100) / 100
+      : DEFAULT_GENERATION.temperature,
+    maxResults: typeof maxResults === 'number' && Number.isFinite(maxResults)
+      ? Math.round(clamp(maxResults, MAX_RESULTS_RANGE))
+      : DEFAULT_GENERATION.maxResults,
+  };
+};
+
+export const sanitizeSearchSettings = (raw: unknown): SearchSettings => {
+  const record = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const modes = (record.modes && typeof record.modes === 'object' ? record.modes : {}) as Record<string, unknown>;
+  return {
+    modes: {
+      text: sanitizeGeneration(modes.text),
+      audio: sanitizeGeneration(modes.audio),
+      combined: sanitizeGeneration(modes.combined),
+    },
+    thorough: record.thorough === true,
+  };
+};
+
+export const loadSearchSettings = (): SearchSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return sanitizeSearchSettings(saved ? JSON.parse(saved) : null);
+  } catch (e) {
+    console.error("Failed to load search settings", e);
+    return defaultSearchSettings();
+  }
+};
+
+export const saveSearchSettings = (settings: SearchSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** What a particular search should run with, thorough mode included. */
+export const generationFor = (settings: SearchSettings, mode: SearchMode): GenerationSettings => {
+  const generation = settings.modes[mode];
+  return settings.thorough && mode === 'audio' ? { ...generation, model: THOROUGH_MODEL } : generation;
+};
+
+export const isDefaultGeneration = ({ model, temperature, maxResults }: GenerationSettings) =>
+  model === DEFAULT_GENERATION.model
+  && temperature === DEFAULT_GENERATION.temperature
+  && maxResults === DEFAULT_GENERATION.maxResults;
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { Song } from '../types';
+import { isSameSong, normalizeKey, songId } from './songIdentity';
+
+describe('normalizeKey', () => {
+  it.each([
+    ['Time (feat. Someone)', 'time'],
+    ['Time [ft. Someone]', 'time'],
+    ['Time feat. Someone', 'time'],
+    ['Time featuring Someone', 'time'],
+    ['Canção do Mar', 'cancao do mar'],
+  ])('reduces %s to %s', (value, key) => {
+    expect(normalizeKey(value)).toBe(key);
+  });
+
+  it.each(['Lift Me Up', 'Lift Off', 'Daft Punk', 'Soft Cell', 'Left Outside Alone'])('keeps %s whole', value => {
+    expect(normalizeKey(value)).toBe(value.toLowerCase());
+  });
+});
+
+describe('songId', () => {
+  it('tells apart titles that only share a "ft" inside a word', () => {
+    expect(songId('Lift Me Up', 'Rihanna')).toBe('song:lift-me-up--rihanna');
+    expect(songId('Lift Off', 'Rihanna')).not.toBe(songId('Lift Me Up', 'Rihanna'));
+  });
+
+  it('keeps artists whose names contain "ft"', () => {
+    expect(songId('One More Time', 'Daft Punk')).toBe('song:one-more-time--daft-punk');
+    expect(songId('Tainted Love', 'Soft Cell')).toBe('song:tainted-love--soft-cell');
+  });
+
+  it('ignores featured artists', () => {
+    expect(songId('Umbrella (feat. JAY-Z)', 'Rihanna ft. JAY-Z')).toBe(songId('Umbrella', 'Rihanna'));
+  });
+});
+
+describe('isSameSong', () => {
+  const song = (titulo: string, artista: string, isrc?: string): Song => ({
+    id: songId(titulo, artista),
+    titulo,
+    artista,
+    matchType: 'Texto',
+    confidence: 80,
+    externalIds: isrc ? { isrc } : undefined,
+  });
+
+  it('matches the same title and artist even when the recordings differ', () => {
+    const original = song('Time', 'Hans Zimmer', 'USWB11000001');
+    const remaster = song('Time', 'Hans Zimmer', 'USWB12000002');
+    expect(isSameSong(original, remaster)).toBe(true);
+  });
+
+  it('matches differently written titles through the ISRC', () => {
+    expect(isSameSong(song('Time', 'Hans Zimmer', 'USWB11000001'), song('Time - Inception', 'Hans Zimmer', 'USWB11000001'))).toBe(true);
+  });
+
+  it('keeps different songs apart', () => {
+    expect(isSameSong(song('Time', 'Hans Zimmer'), song('Time', 'Pink Floyd'))).toBe(false);
+    expect(isSameSong(song('Time', 'Hans Zimmer', 'USWB11000001'), song('Time', 'Pink Floyd', 'GBN9Y1100001'))).toBe(false);
+  });
+});
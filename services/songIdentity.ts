@@ -0,0 +1,43 @@
+import { Song } from "../types";
+
+// Case, accents, punctuation and "feat." tails shouldn't make two entries
+// count as different songs.
+export const normalizeKey = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .toLowerCase()
+    // Only a separate word counts: "Lift", "Daft" and "Soft" aren't "ft"
+    .replace(/(?:\s+|\s*[([])(?:feat\.?|ft\.?|featuring)\s.*$/, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const slug = (value: string) => normalizeKey(value).replace(/ /g, '-');
+
+/**
+ * Deterministic id for a song: the same title and artist always produce the
+ * same id, no matter which search (or model) found it.
+ */
+export const songId = (titulo: string, artista: string) => `song:${slug(titulo)}--${slug(artista)}`;
+
+export const withStableId = <T extends Pick<Song, 'titulo' | 'artista'>>(song: T): T & { id: string } => ({
+  ...song,
+  id: songId(song.titulo, song.artista),
+});
+
+// The library is keyed by id, so equal ids are always the same song; a
+// remaster resolving to another recording mustn't become a second entry.
+// Otherwise external ids win when both sides have one: they match songs
+// whose titles are written differently.
+export const isSameSong = (a: Song, b: Song) => {
+  if (a.id === b.id) return true;
+
+  const isrcA = a.externalIds?.isrc;
+  const isrcB = b.externalIds?.isrc;
+  if (isrcA && isrcB) return isrcA === isrcB;
+
+  const mbA = a.externalIds?.musicbrainzId;
+  const mbB = b.externalIds?.musicbrainzId;
+  return !!mbA && mbA === mbB;
+};
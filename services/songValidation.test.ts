@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { repairSong } from './songValidation';
+
+describe('repairSong evidence', () => {
+  it('keeps each lyric fragment once', () => {
+    const song = repairSong({
+      titulo: 'Time',
+      artista: 'Hans Zimmer',
+      confidence: 92,
+      evidence: { lyricFragments: ['la la', ' la la ', 'oh oh'], melodicFeatures: ['rising', 'rising'] },
+    });
+
+    expect(song?.evidence?.lyricFragments).toEqual(['la la', 'oh oh']);
+    expect(song?.evidence?.melodicFeatures).toEqual(['rising']);
+  });
+});
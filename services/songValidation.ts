@@ -0,0 +1,279 @@
+import { ExternalIds, Song, SongEvidence } from "../types";
+import { songId } from "./songIdentity";
+import { AppError } from "./appErrors";
+
+const MATCH_TYPES: Song['matchType'][] = ['Texto', 'Melodia', 'Contexto'];
+
+// Loose spellings the model (or an older server) sometimes uses instead of
+// the schema enum.
+const MATCH_TYPE_ALIASES: Record<string, Song['matchType']> = {
+  texto: 'Texto',
+  text: 'Texto',
+  lyrics: 'Texto',
+  letra: 'Texto',
+  melodia: 'Melodia',
+  melody: 'Melodia',
+  audio: 'Melodia',
+  hum: 'Melodia',
+  humming: 'Melodia',
+  contexto: 'Contexto',
+  context: 'Contexto',
+  scene: 'Contexto',
+};
+
+export type MalformedReason = 'invalid_json' | 'not_array' | 'no_valid_entries';
+
+export class MalformedResponseError extends AppError {
+  constructor(public reason: MalformedReason) {
+    super('malformed_response');
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export interface DroppedEntry {
+  index: number;
+  reason: string;
+}
+
+export interface SongValidationResult {
+  songs: Song[];
+  dropped: DroppedEntry[];
+}
+
+const readString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const readMatchType = (value: unknown): Song['matchType'] => {
+  if (typeof value === 'string') {
+    if ((MATCH_TYPES as string[]).includes(value)) return value as Song['matchType'];
+    const alias = MATCH_TYPE_ALIASES[value.trim().toLowerCase()];
+    if (alias) return alias;
+  }
+  return 'Contexto';
+};
+
+// Service ids end up in URLs, so anything beyond a plain token is dropped
+const SERVICE_ID_KEYS = ['spotifyId', 'appleMusicId', 'deezerId', 'youtubeVideoId', 'geniusId'] as const;
+
+const readServiceId = (value: unknown) => {
+  const id = readString(value);
+  return /^[A-Za-z0-9_-]+$/.test(id) ? id : '';
+};
+
+const readExternalIds = (value: unknown): Song['externalIds'] => {
+  if (!value || typeof value !== 'object') return undefined;
+  const record = value as Record<string, unknown>;
+  const ids: ExternalIds = {};
+  const isrc = readString(record.isrc).toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const musicbrainzId = readString(record.musicbrainzId).toLowerCase();
+  if (isrc) ids.isrc = isrc;
+  if (musicbrainzId) ids.musicbrainzId = musicbrainzId;
+  for (const key of SERVICE_ID_KEYS) {
+    const id = readServiceId(record[key]);
+    if (id) ids[key] = id;
+  }
+  return Object.keys(ids).length > 0 ? ids : undefined;
+};
+
+const readFingerprint = (value: unknown): number[] | undefined => {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+  return value.every(v => typeof v === 'number' && Number.isFinite(v)) ? value : undefined;
+};
+
+const MAX_EVIDENCE_ITEMS = 5;
+
+// Models repeat themselves; each item is shown (and keyed) once
+const readStringList = (value: unknown) =>
+  Array.isArray(value) ? [...new Set(value.map(readString).filter(Boolean))].slice(0, MAX_EVIDENCE_ITEMS) : [];
+
+const readSeconds = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+// Accepts the stored shape ({audioRange: {start, end}}) as well as the flat
+// audioStartSeconds/audioEndSeconds the model is asked for.
+const readEvidence = (value: unknown): SongEvidence | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const record = value as Record<string, unknown>;
+  const range = (record.audioRange && typeof record.audioRange === 'object' ? record.audioRange : {}) as Record<string, unknown>;
+  const evidence: SongEvidence = {};
+
+  const lyricFragments = readStringList(record.lyricFragments);
+  if (lyricFragments.length > 0) evidence.lyricFragments = lyricFragments;
+  const scene = readString(record.scene);
+  if (scene) evidence.scene = scene;
+  const melodicFeatures = readStringList(record.melodicFeatures);
+  if (melodicFeatures.length > 0) evidence.melodicFeatures = melodicFeatures;
+  const start = readSeconds(range.start ?? record.audioStartSeconds);
+  const end = readSeconds(range.end ?? record.audioEndSeconds);
+  if (start !== undefined && end !== undefined && end > start) evidence.audioRange = { start, end };
+
+  return Object.keys(evidence).length > 0 ? evidence : undefined;
+};
+
+const readPositiveNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+
+const readUrl = (value: unknown) => {
+  const url = readString(value);
+  return url.startsWith('https://') ? url : undefined;
+};
+
+const readConfidence = (value: unknown) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : 0;
+};
+
+const clampConfidence = (value: number) => Math.round(Math.min(100, Math.max(0, value)));
+
+// The model is asked for 0-100 but regularly answers on a 0-1 scale. We only
+// rescale when every score in the batch fits 0-1, so a genuine "1% match"
+// next to "85%" isn't blown up to 100.
+const rescaleConfidences = (values: number[]) => {
+  const fractional = values.length > 0 && values.every(v => v >= 0 && v <= 1) && values.some(v => v > 0 && v < 1);
+  return values.map(v => clampConfidence(fractional ? v * 100 : v));
+};
+
+interface ValidEntry {
+  record: Record<string, unknown>;
+  titulo: string;
+  artista: string;
+}
+
+type EntryResult = ValidEntry | { reason: string };
+
+const readEntry = (entry: unknown): EntryResult => {
+  if (!entry || typeof entry !== 'object') {
+    return { reason: 'not an object' };
+  }
+  const record = entry as Record<string, unknown>;
+  const titulo = readString(record.titulo ?? record.title);
+  const artista = readString(record.artista ?? record.artist);
+  if (!titulo || !artista) {
+    return { reason: 'missing title or artist' };
+  }
+  return { record, titulo, artista };
+};
+
+const buildSong = (record: Record<string, unknown>, titulo: string, artista: string, confidence: number): Song => ({
+  id: songId(titulo, artista),
+  titulo,
+  artista,
+  matchType: readMatchType(record.matchType),
+  confidence,
+  description: readString(record.description) || undefined,
+  evidence: readEvidence(record.evidence),
+  externalIds: readExternalIds(record.externalIds),
+  melodyFingerprint: readFingerprint(record.melodyFingerprint),
+  album: readString(record.album) || undefined,
+  releaseYear: readPositiveNumber(record.releaseYear),
+  durationMs: readPositiveNumber(record.durationMs),
+  coverArtUrl: readUrl(record.coverArtUrl),
+  verified: typeof record.verified === 'boolean' ? record.verified : undefined,
+});
+
+// Keep the strongest match but don't lose details the other copy had.
+const mergeDuplicate = (existing: Song, song: Song): Song => {
+  const [winner, loser] = song.confidence > existing.confidence ? [song, existing] : [existing, song];
+  return {
+    ...winner,
+    description: winner.description || loser.description,
+    evidence: winner.evidence || loser.evidence,
+    externalIds: winner.externalIds || loser.externalIds,
+    melodyFingerprint: winner.melodyFingerprint || loser.melodyFingerprint,
+  };
+};
+
+/**
+ * Turns whatever the model produced into a clean Song[]: repairs fields it
+ * can, drops entries without a title or artist, assigns stable ids and
+ * merges duplicates.
+ * Throws MalformedResponseError when nothing usable is left.
+ */
+export const validateSongs = (raw: unknown): SongValidationResult => {
+  if (!Array.isArray(raw)) {
+    throw new MalformedResponseError('not_array');
+  }
+
+  const dropped: DroppedEntry[] = [];
+  const candidates: ValidEntry[] = [];
+
+  raw.forEach((entry, index) => {
+    const result = readEntry(entry);
+    if ('reason' in result) {
+      dropped.push({ index, reason: result.reason });
+    } else {
+      candidates.push(result);
+    }
+  });
+
+  if (raw.length > 0 && candidates.length === 0) {
+    throw new MalformedResponseError('no_valid_entries');
+  }
+
+  const confidences = rescaleConfidences(candidates.map(c => readConfidence(c.record.confidence)));
+
+  const byId = new Map<string, Song>();
+  candidates.forEach(({ record, titulo, artista }, i) => {
+    const song = buildSong(record, titulo, artista, confidences[i]);
+    const existing = byId.get(song.id);
+    byId.set(song.id, existing ? mergeDuplicate(existing, song) : song);
+  });
+
+  return { songs: [...byId.values()], dropped };
+};
+
+/**
+ * Repairs a single already-normalized song, e.g. one read back from storage.
+ * Unlike validateSongs it never rescales confidence. Returns null when the
+ * entry can't be salvaged.
+ */
+export const repairSong = (entry: unknown): Song | null => {
+  const result = readEntry(entry);
+  if ('reason' in result) return null;
+  const song = buildSong(result.record, result.titulo, result.artista, clampConfidence(readConfidence(result.record.confidence)));
+  // Only stored and imported songs can be unscored; model answers never are
+  return result.record.unscored === true ? { ...song, unscored: true } : song;
+};
+
+/**
+ * Streaming counterpart of validateSongs for results that arrive one entry
+ * at a time. push() returns the song to show, or null when the entry was
+ * dropped or is a duplicate that doesn't improve on what was already shown.
+ * A returned song may reuse an earlier id; callers should replace by id.
+ *
+ * Without the whole batch, scores are rescaled from 0-1 only until the first
+ * score above 1 shows up.
+ */
+export const createSongNormalizer = () => {
+  const byId = new Map<string, Song>();
+  const dropped: DroppedEntry[] = [];
+  let index = 0;
+  let percentScale = false;
+
+  return {
+    dropped,
+    push(entry: unknown): Song | null {
+      const result = readEntry(entry);
+      if ('reason' in result) {
+        dropped.push({ index: index++, reason: result.reason });
+        return null;
+      }
+      index++;
+
+      const raw = readConfidence(result.record.confidence);
+      if (raw > 1) percentScale = true;
+      const song = buildSong(result.record, result.titulo, result.artista, clampConfidence(percentScale ? raw : raw * 100));
+
+      const existing = byId.get(song.id);
+      const merged = existing ? mergeDuplicate(existing, song) : song;
+      byId.set(song.id, merged);
+      return existing && merged.confidence === existing.confidence && merged.description === existing.description ? null : merged;
+    },
+    // Call once the stream ends: an answer made only of junk is an error,
+    // not an empty result.
+    finish() {
+      if (index > 0 && byId.size === 0) {
+        throw new MalformedResponseError('no_valid_entries');
+      }
+    },
+  };
+};
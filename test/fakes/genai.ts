@@ -0,0 +1,72 @@
+import { Content, GenerateContentConfig, GenerateContentResponse, GoogleGenAI } from '@google/genai';
+
+// One streamed chunk, or an error thrown at that point in the stream
+export type FakeChunk = GenerateContentResponse | Error | DOMException;
+
+// jsdom's DOMException isn't an Error subclass
+const isFailure = (value: unknown): value is Error | DOMException =>
+  value instanceof Error || value instanceof DOMException;
+
+export interface RecordedRequest {
+  method: 'generateContentStream' | 'sendMessageStream';
+  model: string;
+  config?: GenerateContentConfig;
+  // generateContentStream only
+  contents?: unknown;
+  // sendMessageStream only
+  history?: Content[];
+  message?: unknown;
+}
+
+/** A chunk whose text is the given JSON fragment. */
+export const textChunk = (text: string, extra: Partial<GenerateContentResponse> = {}) =>
+  ({ text, ...extra }) as unknown as GenerateContentResponse;
+
+/** The whole answer as one chunk, the way a short response usually streams. */
+export const songsChunk = (songs: object[]) => textChunk(JSON.stringify(songs));
+
+/**
+ * Stands in for the parts of GoogleGenAI that searchMusic uses. Every
+ * request is recorded, and answered with whatever respondWith() set last.
+ */
+export class FakeGoogleGenAI {
+  readonly requests: RecordedRequest[] = [];
+  private reply: FakeChunk[] | Error | DOMException = [];
+
+  /** Chunks to stream, or an error to throw as the request starts. */
+  respondWith(reply: FakeChunk[] | Error | DOMException) {
+    this.reply = reply;
+    return this;
+  }
+
+  asClient() {
+    return this as unknown as GoogleGenAI;
+  }
+
+  readonly models = {
+    generateContentStream: async ({ model, contents, config }: { model: string; contents: unknown; config?: GenerateContentConfig }) => {
+      this.requests.push({ method: 'generateContentStream', model, contents, config });
+      return this.stream();
+    },
+  };
+
+  readonly chats = {
+    create: ({ model, config, history }: { model: string; config?: GenerateContentConfig; history?: Content[] }) => ({
+      sendMessageStream: async ({ message, config: messageConfig }: { message: unknown; config?: GenerateContentConfig }) => {
+        this.requests.push({ method: 'sendMessageStream', model, history, message, config: messageConfig ?? config });
+        return this.stream();
+      },
+    }),
+  };
+
+  private stream() {
+    const reply = this.reply;
+    if (isFailure(reply)) throw reply;
+    return (async function* () {
+      for (const chunk of reply) {
+        if (isFailure(chunk)) throw chunk;
+        yield chunk;
+      }
+    })();
+  }
+}
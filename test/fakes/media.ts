@@ -0,0 +1,56 @@
+import { vi } from 'vitest';
+
+export class FakeMediaStream {
+  readonly tracks = [{ kind: 'audio', stop: vi.fn() }];
+
+  getTracks() {
+    return this.tracks;
+  }
+}
+
+/**
+ * Records nothing: stop() hands back one small blob and fires onstop, the
+ * same order a browser uses.
+ */
+export class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+
+  state: RecordingState = 'inactive';
+  mimeType = 'audio/webm';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(public stream: MediaStream) {
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['fake audio'], { type: this.mimeType }) });
+    this.onstop?.();
+  }
+}
+
+/**
+ * Installs MediaRecorder and navigator.mediaDevices.getUserMedia. With
+ * `fail`, getUserMedia rejects with that DOMException name, e.g.
+ * 'NotAllowedError' for a denied permission. With `failRecorder`, the
+ * microphone opens but MediaRecorder can't be created.
+ */
+export const installMicrophone = ({ fail, failRecorder }: { fail?: string; failRecorder?: boolean } = {}) => {
+  const stream = new FakeMediaStream();
+  const getUserMedia = vi.fn(async () => {
+    if (fail) throw new DOMException('Microphone unavailable', fail);
+    return stream as unknown as MediaStream;
+  });
+  FakeMediaRecorder.instances = [];
+  vi.stubGlobal('MediaRecorder', failRecorder
+    ? class { constructor() { throw new DOMException('Unsupported mime type', 'NotSupportedError'); } }
+    : FakeMediaRecorder);
+  Object.defineProperty(navigator, 'mediaDevices', { configurable: true, value: { getUserMedia } });
+  return { stream, getUserMedia };
+};
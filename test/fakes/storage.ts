@@ -0,0 +1,36 @@
+import { vi } from 'vitest';
+
+/** In-memory Storage; jsdom's persists between tests in the same file. */
+export class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+}
+
+export const installLocalStorage = () => {
+  const storage = new MemoryStorage();
+  vi.stubGlobal('localStorage', storage);
+  return storage;
+};
@@ -0,0 +1,15 @@
+import '@testing-library/jest-dom/vitest';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { installLocalStorage } from './fakes/storage';
+
+// Every test starts with empty storage and no leftover stubs or DOM
+beforeEach(() => {
+  installLocalStorage();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
@@ -1,20 +1,167 @@
+export interface ExternalIds {
+  isrc?: string;
+  musicbrainzId?: string;
+  // Catalog ids on streaming services; link providers use them for direct
+  // links instead of a search (services/linkProviders.ts).
+  spotifyId?: string;
+  appleMusicId?: string;
+  deezerId?: string;
+  youtubeVideoId?: string;
+  geniusId?: string;
+}
+
+// What a result was matched on, as reported by the model. Every part is
+// optional; the model only fills what applies to the query.
+export interface SongEvidence {
+  lyricFragments?: string[];
+  // Film, show or scene the query referenced.
+  scene?: string;
+  melodicFeatures?: string[];
+  // Seconds into the submitted audio that matched.
+  audioRange?: { start: number; end: number };
+}
+
 export interface Song {
+  // Derived from normalized title and artist (see services/songIdentity.ts),
+  // never taken from the model.
   id: string;
   titulo: string;
   artista: string;
   matchType: 'Texto' | 'Melodia' | 'Contexto';
   confidence: number;
+  // Imported from a file without a score; confidence is then 0 but means
+  // "unknown", not "unlikely".
+  unscored?: boolean;
   description?: string;
+  evidence?: SongEvidence;
+  externalIds?: ExternalIds;
+  // Interval sequence of a hum that found this song (services/melodyMatcher.ts),
+  // saved with favorites for local melody matching.
+  melodyFingerprint?: number[];
+  // Filled in by a MetadataResolver (services/metadataResolver.ts) after search.
+  album?: string;
+  releaseYear?: number;
+  durationMs?: number;
+  coverArtUrl?: string;
+  // true once found in a real catalog, false if the lookup found nothing
+  // (the model may have made it up), undefined if not checked yet.
+  verified?: boolean;
+}
+
+// A favorited song plus everything the user adds to it.
+export interface LibraryEntry {
+  song: Song;
+  addedAt: number;
+  tags: string[];
+  notes: string;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  songIds: string[];
+  createdAt: number;
+}
+
+export interface Library {
+  entries: LibraryEntry[];
+  playlists: Playlist[];
+}
+
+// Which streaming-service links show on song cards, by provider id. The
+// default provider also backs the play button.
+export interface LinkPreferences {
+  visible: string[];
+  defaultProvider: string;
+}
+
+// Searches are configured per kind of input: description only, hum/recording
+// only, or both.
+export type SearchMode = 'text' | 'audio' | 'combined';
+
+export interface GenerationSettings {
+  model: string;
+  temperature: number;
+  maxResults: number;
+}
+
+export interface SearchSettings {
+  modes: Record<SearchMode, GenerationSettings>;
+  // Audio-only searches use a stronger (slower) model regardless of the
+  // audio mode's model.
+  thorough: boolean;
+}
+
+export type LibrarySort = 'addedAt' | 'titulo' | 'artista' | 'confidence';
+
+export type ErrorCode =
+  | 'missing_input'
+  | 'api_key'
+  | 'quota'
+  | 'offline'
+  | 'payload_too_large'
+  | 'text_too_long'
+  | 'unsupported_audio'
+  | 'invalid_request'
+  | 'safety_block'
+  | 'malformed_response'
+  | 'unavailable'
+  | 'microphone_denied'
+  | 'microphone_unavailable'
+  | 'unknown';
+
+// What the UI keeps of a failure: enough to explain it and offer a way out.
+export interface ErrorInfo {
+  code: ErrorCode;
+  // Set when the server said how long to wait (rate limits).
+  retryAfterMs?: number;
+  // How many times the search was tried before giving up.
+  attempts?: number;
 }
 
 export interface SearchState {
+  // Waiting for the first result.
   isLoading: boolean;
-  error: string | null;
+  // Some results are in and more may follow.
+  isStreaming: boolean;
+  error: ErrorInfo | null;
+  // Set while a failed attempt waits to be retried.
+  retryAttempt?: number;
   results: Song[];
 }
 
+// One F0 estimate from the recorder; frequency is null for silence or
+// unpitched frames. time is seconds from the start of the recording.
+export interface PitchPoint {
+  time: number;
+  frequency: number | null;
+}
+
+export interface HistoryEntry {
+  // Hash of the normalized text and audio; doubles as the cache key.
+  id: string;
+  text: string;
+  audio: Blob | null;
+  mimeType: string | null;
+  pitchContour?: PitchPoint[];
+  timestamp: number;
+  results: Song[];
+}
+
+// A search made while offline, waiting in IndexedDB for a connection.
+export interface QueuedSearch {
+  id: string;
+  text: string;
+  audio: Blob | null;
+  mimeType: string | null;
+  pitchContour?: PitchPoint[];
+  locale?: string;
+  queuedAt: number;
+}
+
 export enum RecorderStatus {
   IDLE = 'idle',
   RECORDING = 'recording',
+  PROCESSING = 'processing',
   FINISHED = 'finished',
 }
\ No newline at end of file
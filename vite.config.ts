@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -8,16 +9,30 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Gemini calls go through server/index.ts so the key stays server-side.
+          '/api': `http://localhost:${env.PORT || 3001}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.SEARCH_PROVIDER': JSON.stringify(env.SEARCH_PROVIDER),
+        // The service worker caches aggressively, which only gets in the way
+        // while developing
+        'process.env.SERVICE_WORKER': JSON.stringify(mode === 'production'),
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // jsdom stands in for the browser; everything else it lacks
+        // (MediaRecorder, microphone, Gemini) is faked under test/fakes/
+        environment: 'jsdom',
+        setupFiles: ['./test/setup.ts'],
+        include: ['**/*.test.{ts,tsx}'],
+        exclude: ['node_modules', 'dist'],
       }
     };
 });